@@ -0,0 +1,275 @@
+/**
+ * Unit tests for multiple accounts
+ *
+ * Test cases:
+ * - Settings parsing: names default to the config dir, invalid entries refused
+ * - Round-robin rotation; a preferred account is used while in rotation
+ * - Least-loaded picks the account with the fewest calls in flight
+ * - Auth errors and usage limits take an account out of rotation until the
+ *   cooldown or reset time; auth errors report auth lost for that account
+ * - Accounts with invalid credentials stay out until they are valid again
+ * - Service passes CLAUDE_CONFIG_DIR per account and fails over on a limit,
+ *   trying each account once per call
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AccountPool, DEFAULT_ACCOUNT_COOLDOWN, accountPoolConfigFromSettings } from './accounts';
+import { ClaudeCodeAuthError, ClaudeCodeConfigError, ClaudeCodeUsageLimitError } from './errors';
+import { ClaudeCodeService } from './service';
+import type { AccountPoolConfig, ClaudeAuthEvent, ClaudeInvokeResult } from './types';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-code-accounts-test-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function config(overrides: Partial<AccountPoolConfig> = {}): AccountPoolConfig {
+  return {
+    accounts: ['a', 'b', 'c'].map((name) => ({ name, configDir: join(dir, name) })),
+    selection: 'round-robin',
+    cooldown: 60000,
+    ...overrides,
+  };
+}
+
+function failure(status: 'auth_error' | 'usage_limit', resetAt?: number): ClaudeInvokeResult {
+  const error =
+    status === 'auth_error'
+      ? new ClaudeCodeAuthError()
+      : new ClaudeCodeUsageLimitError('usage_limit', resetAt);
+  return { status, error, output: '', exitCode: 1, stderr: '', duration: 5 };
+}
+
+async function writeCredentials(
+  configDir: string,
+  token: string,
+  expiresAt = Date.now() + 86400000
+): Promise<void> {
+  await mkdir(configDir, { recursive: true });
+  const credentials = { claudeAiOauth: { accessToken: token, expiresAt } };
+  await writeFile(join(configDir, '.credentials.json'), JSON.stringify(credentials));
+}
+
+const success: ClaudeInvokeResult = {
+  status: 'success',
+  output: 'ok',
+  exitCode: 0,
+  stderr: '',
+  duration: 5,
+};
+
+describe('accountPoolConfigFromSettings', () => {
+  test('reads accounts with defaults', () => {
+    expect(accountPoolConfigFromSettings(undefined)).toBeNull();
+    expect(accountPoolConfigFromSettings({ accounts: [] })).toBeNull();
+    expect(
+      accountPoolConfigFromSettings({
+        accounts: [{ name: 'main', configDir: '/a' }, { configDir: '/b' }],
+      })
+    ).toEqual({
+      accounts: [
+        { name: 'main', configDir: '/a' },
+        { name: '/b', configDir: '/b' },
+      ],
+      selection: 'round-robin',
+      cooldown: DEFAULT_ACCOUNT_COOLDOWN,
+    });
+  });
+
+  test('refuses invalid accounts', () => {
+    const bad = [
+      { accounts: [{ name: 'a' }] },
+      { accounts: [{ configDir: '/a' }, { configDir: '/a' }] },
+      { accounts: [{ configDir: '/a' }], accountSelection: 'random' },
+      { accounts: [{ configDir: '/a' }], accountCooldown: 0 },
+    ];
+    for (const settings of bad) {
+      expect(() => accountPoolConfigFromSettings(settings)).toThrow(ClaudeCodeConfigError);
+    }
+  });
+});
+
+describe('AccountPool', () => {
+  test('rotates round-robin and honours a preferred account', () => {
+    const pool = new AccountPool(config());
+    const picked = [1, 2, 3, 4].map(() => pool.acquire().name);
+    expect(picked).toEqual(['a', 'b', 'c', 'a']);
+
+    const lease = pool.acquire('c');
+    expect(lease).toMatchObject({ name: 'c', env: { CLAUDE_CONFIG_DIR: join(dir, 'c') } });
+    expect(pool.acquire().name).toBe('a');
+  });
+
+  test('picks the least-loaded account', () => {
+    const pool = new AccountPool(config({ selection: 'least-loaded' }));
+    const a = pool.acquire();
+    const b = pool.acquire();
+    expect([a.name, b.name]).toEqual(['a', 'b']);
+    b.release();
+    b.release(); // releasing twice counts once
+    expect(pool.acquire().name).toBe('c');
+    expect(pool.acquire().name).toBe('b');
+    expect(pool.getStatus().map((s) => s.running)).toEqual([1, 1, 1]);
+  });
+
+  test('takes limited accounts out of rotation until reset', () => {
+    const pool = new AccountPool(config());
+    const resetAt = Date.now() + 3600000;
+    pool.report('a', failure('usage_limit', resetAt));
+    pool.report('b', failure('usage_limit'));
+
+    expect(pool.acquire('a').name).toBe('c');
+    expect(pool.acquire().name).toBe('c');
+    const [a, b] = pool.getStatus();
+    expect(a).toMatchObject({ available: false, cooldownUntil: resetAt });
+    expect(a.lastError).toStartWith('usage limit');
+    expect(b.cooldownUntil).toBeGreaterThan(Date.now() + 50000);
+
+    pool.report('c', failure('usage_limit'));
+    expect(pool.hasAvailable()).toBe(false);
+    expect(pool.acquire().name).toBe('b'); // back soonest
+
+    pool.report('a', success);
+    const [restored] = pool.getStatus();
+    expect(restored.available).toBe(true);
+    expect(restored.lastError).toBeUndefined();
+  });
+
+  test('keeps the cooldown when the reset time has passed', () => {
+    const pool = new AccountPool(config());
+    pool.report('a', failure('usage_limit', Date.now() - 1000));
+    expect(pool.getStatus()[0].cooldownUntil).toBeGreaterThan(Date.now() + 50000);
+    expect(pool.hasAvailable(new Set(['b', 'c']))).toBe(false);
+  });
+
+  test('reports auth lost and returns accounts with valid credentials', async () => {
+    const events: ClaudeAuthEvent[] = [];
+    const pool = new AccountPool(config({ cooldown: 20 }), {
+      onEvent: (event) => void events.push(event),
+    });
+    pool.report('a', failure('auth_error'));
+    expect(events).toMatchObject([{ type: 'auth_lost', reason: 'cli', account: 'a' }]);
+    expect(pool.acquire().name).toBe('b');
+
+    // Past the cooldown, but the rejected token is still lost
+    await Bun.sleep(30);
+    expect(pool.getStatus()[0].available).toBe(false);
+    expect(pool.acquire('a').name).not.toBe('a');
+
+    await writeCredentials(join(dir, 'a'), 'new-token');
+    expect((await pool.check('a')).authenticated).toBe(true);
+    expect(pool.getStatus()[0].available).toBe(true);
+    expect(pool.acquire('a').name).toBe('a');
+  });
+
+  test('skips accounts with expired or missing credentials', async () => {
+    await writeCredentials(join(dir, 'a'), 't', Date.now() - 1000);
+    await writeCredentials(join(dir, 'c'), 't');
+    const pool = new AccountPool(config({ selection: 'least-loaded' }));
+    await pool.start();
+    try {
+      const picked = [1, 2, 3].map(() => pool.acquire('a').name);
+      expect(picked).toEqual(['c', 'c', 'c']);
+      expect(pool.getStatus().map((s) => s.available)).toEqual([false, false, true]);
+    } finally {
+      pool.stop();
+    }
+  });
+});
+
+describe('ClaudeCodeService with accounts', () => {
+  /**
+   * Service on a CLI that logs each run's config dir and hits a usage limit
+   * (reset at `resets`, epoch seconds) on accounts named limited*
+   */
+  async function startService(
+    names: string[],
+    resets: number,
+    settings: Record<string, unknown> = {}
+  ): Promise<ClaudeCodeService> {
+    const cli = join(dir, 'claude');
+    await writeFile(
+      cli,
+      `#!/bin/sh
+echo "$CLAUDE_CONFIG_DIR" >> ${join(dir, 'runs')}
+case "$CLAUDE_CONFIG_DIR" in
+  */limited*) echo "Claude AI usage limit reached|${resets}" >&2; exit 1 ;;
+  *) echo "ran on $CLAUDE_CONFIG_DIR" ;;
+esac
+`
+    );
+    await chmod(cli, 0o755);
+    for (const name of names) {
+      await writeCredentials(join(dir, name), 't');
+    }
+
+    const runtime = {
+      agentId: 'accounts-test',
+      character: {
+        settings: {
+          claudeCode: {
+            executable: cli,
+            accounts: names.map((name) => ({ name, configDir: join(dir, name) })),
+            sessionStorePath: join(dir, 'sessions.json'),
+            jobStorePath: join(dir, 'jobs.json'),
+            authCheckInterval: 0,
+            ...settings,
+          },
+        },
+      },
+    } as unknown as IAgentRuntime;
+    return (await ClaudeCodeService.start(runtime)) as ClaudeCodeService;
+  }
+
+  async function runs(): Promise<string[]> {
+    return (await readFile(join(dir, 'runs'), 'utf-8')).trim().split('\n');
+  }
+
+  test('runs on each account and fails over on a usage limit', async () => {
+    const resets = Math.floor(Date.now() / 1000) + 3600;
+    const service = await startService(['limited', 'spare'], resets);
+    try {
+      const result = await service.invoke({ prompt: 'hi' });
+      expect(result).toMatchObject({
+        status: 'success',
+        output: `ran on ${join(dir, 'spare')}`,
+        account: 'spare',
+      });
+      expect(service.getAccounts()).toMatchObject([
+        { name: 'limited', available: false, cooldownUntil: resets * 1000 },
+        { name: 'spare', available: true, running: 0 },
+      ]);
+      expect((await service.invoke({ prompt: 'hi' })).account).toBe('spare');
+
+      expect((await service.checkAuth('spare')).authenticated).toBe(true);
+      expect((await service.checkAuth()).authenticated).toBe(true);
+      await expect(service.checkAuth('other')).rejects.toBeInstanceOf(ClaudeCodeConfigError);
+    } finally {
+      await service.stop();
+    }
+  });
+
+  test('tries each account once when every account is limited', async () => {
+    // Reset already passed and a 1ms cooldown: accounts are back almost at once
+    const resets = Math.floor(Date.now() / 1000) - 60;
+    const service = await startService(['limited-1', 'limited-2'], resets, {
+      accountCooldown: 1,
+    });
+    try {
+      const result = await service.invoke({ prompt: 'hi' });
+      expect(result.status).toBe('usage_limit');
+      expect(await runs()).toEqual([join(dir, 'limited-1'), join(dir, 'limited-2')]);
+    } finally {
+      await service.stop();
+    }
+  });
+});
@@ -0,0 +1,243 @@
+import { logger } from '@elizaos/core';
+
+import { CredentialWatcher } from './credentials';
+import { ClaudeCodeConfigError, ClaudeCodeUsageLimitError } from './errors';
+import type {
+  AccountPoolConfig,
+  AccountSelection,
+  AccountStatus,
+  AuthStatus,
+  ClaudeAccount,
+  ClaudeAuthEvent,
+  ClaudeInvokeResult,
+} from './types';
+
+export const DEFAULT_ACCOUNT_COOLDOWN = 900000; // 15 minutes
+
+const SELECTIONS: AccountSelection[] = ['round-robin', 'least-loaded'];
+
+/**
+ * Read `accounts`, `accountSelection` and `accountCooldown` from `claudeCode`
+ * settings. Returns null when no accounts are configured; throws
+ * ClaudeCodeConfigError for entries without a configDir, duplicate names or
+ * a cooldown that is not positive.
+ */
+export function accountPoolConfigFromSettings(
+  settings?: Record<string, unknown>
+): AccountPoolConfig | null {
+  if (!Array.isArray(settings?.accounts) || settings.accounts.length === 0) return null;
+
+  const accounts = settings.accounts.map((entry, index): ClaudeAccount => {
+    const a = (entry ?? {}) as Record<string, unknown>;
+    if (typeof a.configDir !== 'string' || !a.configDir) {
+      throw new ClaudeCodeConfigError(`accounts[${index}] needs a configDir`);
+    }
+    const name = typeof a.name === 'string' && a.name ? a.name : a.configDir;
+    return { name, configDir: a.configDir };
+  });
+  const names = new Set(accounts.map((a) => a.name));
+  if (names.size < accounts.length) {
+    throw new ClaudeCodeConfigError('account names must be unique');
+  }
+
+  const selection = settings.accountSelection ?? 'round-robin';
+  if (!SELECTIONS.includes(selection as AccountSelection)) {
+    throw new ClaudeCodeConfigError('accountSelection must be round-robin or least-loaded');
+  }
+  const cooldown = settings.accountCooldown ?? DEFAULT_ACCOUNT_COOLDOWN;
+  if (typeof cooldown !== 'number' || !(cooldown > 0)) {
+    throw new ClaudeCodeConfigError('accountCooldown must be a positive number of ms');
+  }
+  return { accounts, selection: selection as AccountSelection, cooldown };
+}
+
+export interface AccountPoolOptions {
+  /** Credentials re-read interval in ms (see CredentialWatcher) */
+  checkInterval?: number;
+  /** Warn when a token expires within these many ms */
+  warnBefore?: number[];
+  /** Auth changes per account */
+  onEvent?: (event: ClaudeAuthEvent) => void;
+}
+
+/**
+ * Account picked for one call; release() when the call has finished
+ */
+export interface AccountLease {
+  name: string;
+  /** Environment for the spawned CLI (CLAUDE_CONFIG_DIR) */
+  env: Record<string, string>;
+  release(): void;
+}
+
+interface AccountState {
+  account: ClaudeAccount;
+  watcher: CredentialWatcher;
+  running: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+/**
+ * Spreads calls over several subscriptions, each with its own CLI config
+ * directory and credential watcher. An account that hits an auth error or a
+ * usage limit leaves the rotation for `cooldown` ms (until the reported reset
+ * time for limits, if later), then comes back on its own. Accounts whose
+ * credentials are known to be expired, missing or rejected stay out until
+ * they are valid again.
+ */
+export class AccountPool {
+  private states: AccountState[];
+  private next = 0;
+
+  constructor(
+    readonly config: AccountPoolConfig,
+    options: AccountPoolOptions = {}
+  ) {
+    this.states = config.accounts.map((account) => ({
+      account,
+      watcher: new CredentialWatcher({
+        configDir: account.configDir,
+        checkInterval: options.checkInterval,
+        warnBefore: options.warnBefore,
+        onEvent: (event) => options.onEvent?.({ ...event, account: account.name }),
+      }),
+      running: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  /**
+   * Check every account's credentials and start watching them
+   */
+  async start(): Promise<AuthStatus[]> {
+    return Promise.all(this.states.map((state) => state.watcher.start()));
+  }
+
+  stop(): void {
+    for (const state of this.states) {
+      state.watcher.stop();
+    }
+  }
+
+  /**
+   * Re-read an account's credentials. Throws ClaudeCodeConfigError for
+   * unknown names.
+   */
+  check(name: string): Promise<AuthStatus> {
+    return this.state(name).watcher.check();
+  }
+
+  /**
+   * Re-read all credentials, in account order
+   */
+  checkAll(): Promise<AuthStatus[]> {
+    return Promise.all(this.states.map((state) => state.watcher.check()));
+  }
+
+  /**
+   * Pick an account for a call: `preferred` when it is in rotation (e.g., the
+   * account holding a session), otherwise by the selection strategy. Accounts
+   * in `exclude` (already tried by the call) are skipped. When no account is
+   * in rotation, the one back soonest is used.
+   */
+  acquire(preferred?: string, exclude: ReadonlySet<string> = new Set()): AccountLease {
+    const now = Date.now();
+    // Rotation order, so ties go to the account after the last one picked
+    const rotation = [...this.states.slice(this.next), ...this.states.slice(0, this.next)];
+    const untried = rotation.filter((state) => !exclude.has(state.account.name));
+    const ordered = untried.length > 0 ? untried : rotation;
+    const available = ordered.filter((state) => this.inRotation(state, now));
+
+    let state = available.find((s) => s.account.name === preferred);
+    if (!state && available.length > 0) {
+      state =
+        this.config.selection === 'least-loaded'
+          ? available.reduce((best, s) => (s.running < best.running ? s : best))
+          : available[0];
+    }
+    if (!state) {
+      state = ordered.reduce((best, s) => (s.cooldownUntil < best.cooldownUntil ? s : best));
+      logger.warn(`[claude-code] all accounts cooling down, using ${state.account.name}`);
+    }
+    this.next = (this.states.indexOf(state) + 1) % this.states.length;
+
+    state.running++;
+    let released = false;
+    const picked = state;
+    return {
+      name: state.account.name,
+      env: { CLAUDE_CONFIG_DIR: state.account.configDir },
+      release: () => {
+        if (released) return;
+        released = true;
+        picked.running--;
+      },
+    };
+  }
+
+  /**
+   * Take an account out of rotation after an auth error or usage limit; a
+   * success puts it back right away
+   */
+  report(name: string, result: ClaudeInvokeResult): void {
+    const state = this.state(name);
+    if (result.status === 'success') {
+      state.cooldownUntil = 0;
+      state.lastError = undefined;
+      return;
+    }
+    if (result.status !== 'auth_error' && result.status !== 'usage_limit') return;
+
+    const now = Date.now();
+    const resetAt =
+      result.error instanceof ClaudeCodeUsageLimitError ? result.error.resetAt : undefined;
+    state.cooldownUntil = Math.max(resetAt ?? 0, now + this.config.cooldown);
+    state.lastError = result.error?.message ?? result.status;
+    if (result.status === 'auth_error') {
+      state.watcher.markLost();
+    }
+    const until = new Date(state.cooldownUntil).toISOString();
+    logger.warn(`[claude-code] account ${name} out of rotation until ${until}: ${state.lastError}`);
+  }
+
+  /**
+   * Whether any account not in `exclude` is in rotation
+   */
+  hasAvailable(exclude: ReadonlySet<string> = new Set()): boolean {
+    const now = Date.now();
+    return this.states.some(
+      (state) => !exclude.has(state.account.name) && this.inRotation(state, now)
+    );
+  }
+
+  getStatus(): AccountStatus[] {
+    const now = Date.now();
+    return this.states.map((state) => {
+      const { account, watcher, running, cooldownUntil, lastError } = state;
+      const coolingDown = cooldownUntil > now;
+      return {
+        name: account.name,
+        configDir: account.configDir,
+        auth: watcher.getStatus(),
+        running,
+        available: this.inRotation(state, now),
+        ...(coolingDown && { cooldownUntil, lastError }),
+      };
+    });
+  }
+
+  /**
+   * Not cooling down, and credentials not known to be invalid (an account
+   * not checked yet counts as healthy)
+   */
+  private inRotation(state: AccountState, now: number): boolean {
+    return state.cooldownUntil <= now && state.watcher.getStatus()?.authenticated !== false;
+  }
+
+  private state(name: string): AccountState {
+    const state = this.states.find((s) => s.account.name === name);
+    if (!state) throw new ClaudeCodeConfigError(`unknown account '${name}'`);
+    return state;
+  }
+}
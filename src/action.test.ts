@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the CODE_TASK action
+ *
+ * Test cases:
+ * - Settings parsing (disabled without repoDir)
+ * - Validation by allowed users and rooms, repeated by the handler
+ * - Progress and final summary posted through the callback
+ * - Permission profile and repo dir passed to the CLI
+ * - Failure message on timeout
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { Content, IAgentRuntime, Memory } from '@elizaos/core';
+import { codeTaskAction, codeTaskConfig } from './action';
+import { ClaudeCodeService } from './service';
+import { FakeProcessRunner } from './runner';
+import type { FakeResponse } from './runner';
+
+const line = (obj: unknown) => JSON.stringify(obj) + '\n';
+
+function makeRuntime(codeTask: Record<string, unknown> | undefined, script: FakeResponse = {}) {
+  const runner = new FakeProcessRunner(script);
+  const service = new ClaudeCodeService(undefined, runner);
+  const runtime = {
+    agentId: 'agent',
+    character: { settings: { claudeCode: { codeTask } } },
+    getService: () => service,
+  } as unknown as IAgentRuntime;
+  return { runtime, runner };
+}
+
+function message(entityId = 'user-1', roomId = 'room-1'): Memory {
+  return {
+    entityId,
+    roomId,
+    content: { text: 'Where is the retry policy defined?' },
+  } as unknown as Memory;
+}
+
+const config = { repoDir: '/tmp', allowedUsers: ['user-1'], allowedRooms: ['*'] };
+
+describe('codeTaskConfig', () => {
+  test('is null without repoDir', () => {
+    expect(codeTaskConfig(makeRuntime(undefined).runtime)).toBeNull();
+    expect(codeTaskConfig(makeRuntime({ profile: 'edit' }).runtime)).toBeNull();
+  });
+
+  test('applies defaults', () => {
+    expect(codeTaskConfig(makeRuntime({ repoDir: '/tmp' }).runtime)).toEqual({
+      repoDir: '/tmp',
+      profile: 'readonly',
+      allowedUsers: [],
+      allowedRooms: [],
+      model: 'sonnet',
+      timeout: 600000,
+      progressInterval: 30000,
+    });
+  });
+});
+
+describe('codeTaskAction.validate', () => {
+  test('checks allowed users and rooms', async () => {
+    const { runtime } = makeRuntime({ ...config, allowedRooms: ['room-1'] });
+    expect(await codeTaskAction.validate(runtime, message())).toBe(true);
+    expect(await codeTaskAction.validate(runtime, message('user-2'))).toBe(false);
+    expect(await codeTaskAction.validate(runtime, message('user-1', 'room-2'))).toBe(false);
+    expect(await codeTaskAction.validate(runtime, message('agent'))).toBe(false);
+  });
+
+  test('denies everyone without allow lists', async () => {
+    const { runtime } = makeRuntime({ repoDir: '/tmp' });
+    expect(await codeTaskAction.validate(runtime, message())).toBe(false);
+  });
+});
+
+describe('codeTaskAction.handler', () => {
+  test('posts progress and summary', async () => {
+    const stdout = [
+      line({
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 't1', name: 'Grep', input: { pattern: 'retry' } }],
+        },
+      }),
+      line({ type: 'result', subtype: 'success', result: 'It is in src/retry.ts.' }),
+    ];
+    const { runtime, runner } = makeRuntime({ ...config, progressInterval: 0 }, { stdout });
+
+    const posted: Content[] = [];
+    const callback = async (c: Content) => {
+      posted.push(c);
+      return [];
+    };
+    const result = await codeTaskAction.handler(runtime, message(), undefined, undefined, callback);
+
+    expect(result).toMatchObject({ success: true, text: 'It is in src/retry.ts.' });
+    expect(posted.map((c) => c.text)).toEqual([
+      'Working on it in /tmp (readonly)...',
+      'It is in src/retry.ts.',
+    ]);
+
+    const { args, cwd } = runner.calls[0];
+    expect(cwd).toBe('/tmp');
+    expect(args[args.indexOf('--allowedTools') + 1]).toBe('Read,Grep,Glob,LS');
+    expect(args[args.indexOf('--disallowedTools') + 1]).toContain('Edit');
+  });
+
+  test('reports progress on tool use', async () => {
+    const toolUse = (id: string, file: string) =>
+      line({
+        type: 'assistant',
+        message: { content: [{ type: 'tool_use', id, name: 'Read', input: { file_path: file } }] },
+      });
+    const stdout = [
+      toolUse('t1', 'a.ts'),
+      toolUse('t2', 'b.ts'),
+      line({ type: 'result', result: 'ok' }),
+    ];
+    const { runtime } = makeRuntime({ ...config, progressInterval: 5 }, { stdout, delay: 20 });
+
+    const posted: string[] = [];
+    const callback = async (c: Content) => {
+      posted.push(c.text ?? '');
+      return [];
+    };
+    await codeTaskAction.handler(runtime, message(), undefined, undefined, callback);
+
+    expect(posted).toEqual([
+      'Working on it in /tmp (readonly)...',
+      'Still working: Read a.ts',
+      'ok',
+    ]);
+  });
+
+  test('runs with the configured permission profile', async () => {
+    const { runtime, runner } = makeRuntime({ ...config, profile: 'edit' }, { stdout: 'ok' });
+
+    const posted: string[] = [];
+    const callback = async (c: Content) => {
+      posted.push(c.text ?? '');
+      return [];
+    };
+    await codeTaskAction.handler(runtime, message(), undefined, undefined, callback);
+
+    const { args } = runner.calls[0];
+    expect(posted[0]).toBe('Working on it in /tmp (edit)...');
+    expect(args[args.indexOf('--allowedTools') + 1]).toContain('Edit');
+    expect(args[args.indexOf('--permission-mode') + 1]).toBe('acceptEdits');
+  });
+
+  test('refuses disallowed users and rooms without running', async () => {
+    const { runtime, runner } = makeRuntime({ ...config, allowedRooms: ['room-1'] });
+
+    for (const m of [message('user-2'), message('user-1', 'room-2'), message('agent')]) {
+      const posted: string[] = [];
+      const callback = async (c: Content) => {
+        posted.push(c.text ?? '');
+        return [];
+      };
+      const result = await codeTaskAction.handler(runtime, m, undefined, undefined, callback);
+      expect(result).toMatchObject({ success: false });
+      expect(posted).toEqual([]);
+    }
+    expect(runner.calls).toHaveLength(0);
+  });
+
+  test('reports unknown permission profiles', async () => {
+    const { runtime } = makeRuntime({ ...config, profile: 'admin' });
+
+    const result = await codeTaskAction.handler(runtime, message(), undefined, undefined);
+    expect(result).toMatchObject({
+      success: false,
+      text: "The code task is misconfigured: unknown permission profile 'admin'",
+    });
+  });
+
+  test('reports timeout', async () => {
+    const { runtime } = makeRuntime({ ...config, timeout: 20 }, { hang: true });
+
+    const posted: string[] = [];
+    const callback = async (c: Content) => {
+      posted.push(c.text ?? '');
+      return [];
+    };
+    const result = await codeTaskAction.handler(runtime, message(), undefined, undefined, callback);
+
+    expect(result).toMatchObject({ success: false });
+    expect(posted[posted.length - 1]).toContain('timed out');
+  });
+});
@@ -0,0 +1,240 @@
+import { logger } from '@elizaos/core';
+import type {
+  Action,
+  ActionResult,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+} from '@elizaos/core';
+import { resolve } from 'node:path';
+
+import type { ClaudeCodeService } from './service';
+import type { ClaudeInvokeResult, ClaudeModel } from './types';
+
+const DEFAULT_TIMEOUT = 600000; // 10 minutes, same as research()
+const DEFAULT_PROGRESS_INTERVAL = 30000;
+const MAX_SUMMARY_LENGTH = 4000;
+
+/**
+ * `claudeCode.codeTask` settings
+ */
+export interface CodeTaskConfig {
+  /** Repository the task runs in */
+  repoDir: string;
+  /** Permission profile name (defaults to 'readonly') */
+  profile: string;
+  /** Entity ids allowed to trigger the action ('*' = anyone) */
+  allowedUsers: string[];
+  /** Room ids the action may run in ('*' = any room) */
+  allowedRooms: string[];
+  model: ClaudeModel;
+  timeout: number;
+  /** Minimum ms between progress messages (0 = no progress messages) */
+  progressInterval: number;
+}
+
+/**
+ * Read `claudeCode.codeTask` settings, or null if no repoDir is configured
+ */
+export function codeTaskConfig(runtime: IAgentRuntime): CodeTaskConfig | null {
+  const settings = runtime.character?.settings as Record<string, unknown>;
+  const ccSettings = settings?.claudeCode as Record<string, unknown>;
+  const config = ccSettings?.codeTask as Record<string, unknown> | undefined;
+  if (!config || typeof config.repoDir !== 'string' || !config.repoDir) return null;
+
+  const list = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+  return {
+    repoDir: resolve(config.repoDir),
+    profile: typeof config.profile === 'string' && config.profile ? config.profile : 'readonly',
+    allowedUsers: list(config.allowedUsers),
+    allowedRooms: list(config.allowedRooms),
+    model: (config.model as ClaudeModel) || 'sonnet',
+    timeout: typeof config.timeout === 'number' ? config.timeout : DEFAULT_TIMEOUT,
+    progressInterval:
+      typeof config.progressInterval === 'number'
+        ? config.progressInterval
+        : DEFAULT_PROGRESS_INTERVAL,
+  };
+}
+
+function allows(list: string[], id: string): boolean {
+  return list.includes('*') || list.includes(id);
+}
+
+/**
+ * Whether the message may trigger a code task: not the agent's own, from an
+ * allowed user in an allowed room
+ */
+function permitted(runtime: IAgentRuntime, message: Memory, config: CodeTaskConfig): boolean {
+  return (
+    message.entityId !== runtime.agentId &&
+    allows(config.allowedUsers, message.entityId) &&
+    allows(config.allowedRooms, message.roomId)
+  );
+}
+
+/**
+ * Short description of a tool call for progress messages
+ */
+function describeToolUse(name: string, input: unknown): string {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const target = args.file_path ?? args.path ?? args.pattern ?? args.command;
+  return typeof target === 'string' ? `${name} ${target}` : name;
+}
+
+function buildPrompt(task: string, config: CodeTaskConfig): string {
+  const mode =
+    config.profile === 'readonly'
+      ? 'You may read files in this repository but must not change anything.'
+      : 'You may read and edit files in this repository.';
+  return `You are working in the repository at ${config.repoDir}. ${mode}
+
+Task:
+${task}
+
+When done, reply with a concise summary of what you found or changed.`;
+}
+
+function failureMessage(result: ClaudeInvokeResult, config: CodeTaskConfig): string {
+  switch (result.status) {
+    case 'timeout':
+      return `The code task timed out after ${Math.round(config.timeout / 60000)} minutes.`;
+    case 'auth_error':
+      return 'Claude Code is not logged in, so I could not run the task.';
+    case 'usage_limit':
+      return 'Claude Code is usage limited right now, please try again later.';
+    case 'queue_timeout':
+      return 'Claude Code is busy right now, please try again later.';
+    case 'config_error':
+      return `The code task is misconfigured: ${result.error?.message ?? 'unknown error'}`;
+    default:
+      return `The code task failed: ${result.error?.message ?? 'unknown error'}`;
+  }
+}
+
+function stripResponseTags(output: string): string {
+  return output
+    .trim()
+    .replace(/^\s*<response[^>]*>\s*/i, '')
+    .replace(/\s*<\/response>\s*$/i, '')
+    .trim();
+}
+
+/**
+ * CODE_TASK - hand a coding or research task from the conversation to Claude
+ * Code, running in the configured repository with a named permission
+ * profile. Posts progress while tools run and the final summary to the room.
+ */
+export const codeTaskAction: Action = {
+  name: 'CODE_TASK',
+  similes: ['DELEGATE_CODE_TASK', 'RUN_CLAUDE_CODE', 'INVESTIGATE_CODE', 'EDIT_CODE'],
+  description:
+    'Delegate a coding or code research task (read, explain, find, fix or change code in ' +
+    'the configured repository) to Claude Code and report back the result.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    const config = codeTaskConfig(runtime);
+    if (!config || !permitted(runtime, message, config)) return false;
+    return !!runtime.getService<ClaudeCodeService>('claude_code');
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state,
+    _options,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    const config = codeTaskConfig(runtime);
+    const service = runtime.getService<ClaudeCodeService>('claude_code');
+    const task = message.content.text?.trim();
+    if (!config || !service || !task) {
+      return { success: false, error: 'CODE_TASK is not configured or the task is empty' };
+    }
+    // ElizaOS may call the handler without validate() (actions picked by
+    // name or simile), so the allow lists are checked again here
+    if (!permitted(runtime, message, config)) {
+      logger.warn(`[claude-code] code task refused for ${message.entityId} in ${message.roomId}`);
+      return { success: false, error: 'CODE_TASK is not allowed for this user or room' };
+    }
+
+    const post = async (text: string) => {
+      if (!callback) return;
+      try {
+        await callback({ text, actions: ['CODE_TASK'], source: message.content.source });
+      } catch (error) {
+        logger.warn(`[claude-code] failed to post code task update: ${error}`);
+      }
+    };
+
+    logger.info(`[claude-code] code task (${config.profile}) in ${config.repoDir}`);
+    let lastPost = Date.now();
+    await post(`Working on it in ${config.repoDir} (${config.profile})...`);
+
+    let steps: string[] = [];
+    let result: ClaudeInvokeResult | null = null;
+
+    for await (const event of service.invokeStream({
+      prompt: buildPrompt(task, config),
+      model: config.model,
+      timeout: config.timeout,
+      cwd: config.repoDir,
+      profile: config.profile,
+      priority: 'background',
+    })) {
+      if (event.type === 'tool_use') {
+        steps.push(describeToolUse(event.name, event.input));
+        if (config.progressInterval > 0 && Date.now() - lastPost >= config.progressInterval) {
+          await post(`Still working: ${steps.slice(-5).join(', ')}`);
+          steps = [];
+          lastPost = Date.now();
+        }
+      } else if (event.type === 'result') {
+        result = event.result;
+      }
+    }
+
+    if (!result || result.status !== 'success') {
+      const text = result ? failureMessage(result, config) : 'The code task ended unexpectedly.';
+      await post(text);
+      return { success: false, text, error: result?.error, data: { status: result?.status } };
+    }
+
+    const summary =
+      stripResponseTags(result.output) || 'Done, but Claude Code returned no summary.';
+    const text =
+      summary.length > MAX_SUMMARY_LENGTH
+        ? `${summary.slice(0, MAX_SUMMARY_LENGTH)}\n\n[...truncated]`
+        : summary;
+    await post(text);
+
+    return {
+      success: true,
+      text,
+      data: { status: result.status, duration: result.duration, repoDir: config.repoDir },
+    };
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can you find where we parse the retry settings in the repo?' },
+      },
+      {
+        name: '{{agentName}}',
+        content: { text: "I'll have a look in the code.", actions: ['CODE_TASK'] },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Please fix the typo in the README installation section' },
+      },
+      {
+        name: '{{agentName}}',
+        content: { text: 'On it, editing the README.', actions: ['CODE_TASK'] },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for record/replay cassettes
+ *
+ * Test cases:
+ * - Settings parsing: env overrides settings, mode defaults to replay
+ * - Prompt hash ignores ids, timestamps and whitespace
+ * - Record mode starts a fresh cassette; timeouts are not recorded
+ * - Replay serves entries in recording order and fails loudly on a miss
+ * - Passthrough records only misses
+ * - Service records through the stub CLI and replays without spawning
+ * - Replayed auth errors leave auth state, events and metrics alone
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette, cassetteConfigFromSettings, normalizePrompt, promptHash } from './cassette';
+import { ClaudeCodeAuthError, ClaudeCodeCassetteMissError, ClaudeCodeConfigError } from './errors';
+import { FakeProcessRunner } from './runner';
+import { ClaudeCodeService } from './service';
+import type { ClaudeInvokeResult, ClaudeStreamEvent } from './types';
+
+const STUB = join(import.meta.dir, 'claude-stub.ts');
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-code-cassette-test-'));
+  path = join(dir, 'cassettes', 'agent.jsonl');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function result(overrides: Partial<ClaudeInvokeResult> = {}): ClaudeInvokeResult {
+  return { status: 'success', output: 'Hello', exitCode: 0, stderr: '', duration: 5, ...overrides };
+}
+
+async function lines(): Promise<Record<string, unknown>[]> {
+  const raw = await readFile(path, 'utf-8');
+  return raw.trim().split('\n').filter(Boolean).map((line) => JSON.parse(line));
+}
+
+describe('cassetteConfigFromSettings', () => {
+  test('reads settings, overridden by env', () => {
+    expect(cassetteConfigFromSettings(undefined, {})).toBeNull();
+    expect(cassetteConfigFromSettings({ mode: 'record' }, {})).toBeNull();
+    expect(cassetteConfigFromSettings({ path: 'a.jsonl' }, {})).toEqual({
+      mode: 'replay',
+      path: 'a.jsonl',
+    });
+    const env = { CLAUDE_CODE_CASSETTE: 'b.jsonl', CLAUDE_CODE_CASSETTE_MODE: 'passthrough' };
+    expect(cassetteConfigFromSettings({ mode: 'record', path: 'a.jsonl' }, env)).toEqual({
+      mode: 'passthrough',
+      path: 'b.jsonl',
+    });
+    expect(() => cassetteConfigFromSettings({ mode: 'rewind', path: 'a' }, {})).toThrow(
+      ClaudeCodeConfigError
+    );
+  });
+});
+
+describe('promptHash', () => {
+  test('ignores ids, timestamps and whitespace', () => {
+    const prompt = (id: string, at: string) => `# Room ${id}\n\n(${at})  hello`;
+    const a = prompt('8f14e45f-ceea-467f-a0e6-0a1b2c3d4e5f', '2025-01-27T10:00:00.000Z');
+    const b = prompt('45c48cce-2e2d-4fbd-b1a2-0f1e2d3c4b5a', '2025-01-28T11:30:00Z');
+    expect(normalizePrompt(a)).toBe('# Room <uuid> (<time>) hello');
+    expect(promptHash({ prompt: a })).toBe(promptHash({ prompt: `${b}\n` }));
+  });
+
+  test('includes the system prompt and message roles', () => {
+    const hash = promptHash({ prompt: 'hi' });
+    expect(promptHash({ prompt: 'hi', systemPrompt: 'Be brief.' })).not.toBe(hash);
+    expect(promptHash({ messages: [{ role: 'user', content: 'hi' }] })).not.toBe(hash);
+    expect(promptHash({ messages: [{ role: 'assistant', content: 'hi' }] })).not.toBe(
+      promptHash({ messages: [{ role: 'user', content: 'hi' }] })
+    );
+  });
+});
+
+describe('Cassette', () => {
+  test('record mode starts fresh and skips calls stopped before exit', async () => {
+    const cassette = new Cassette({ mode: 'record', path });
+    await cassette.load();
+    await cassette.record({ prompt: 'hi', model: 'haiku', allowedTools: ['Read'] }, result());
+    await cassette.record({ prompt: 'slow' }, result({ status: 'timeout', exitCode: null }));
+
+    expect(await lines()).toEqual([
+      expect.objectContaining({
+        promptHash: promptHash({ prompt: 'hi' }),
+        model: 'haiku',
+        options: { model: 'haiku', allowedTools: ['Read'] },
+        output: 'Hello',
+        exitCode: 0,
+        metadata: {},
+      }),
+    ]);
+    expect(cassette.lookup({ prompt: 'hi', model: 'haiku' })).toBeNull();
+
+    await new Cassette({ mode: 'record', path }).load();
+    expect(await readFile(path, 'utf-8')).toBe('');
+  });
+
+  test('replays in recording order and fails on a miss', async () => {
+    const recorder = new Cassette({ mode: 'record', path });
+    await recorder.load();
+    await recorder.record({ prompt: 'hi' }, result({ output: 'one' }));
+    await recorder.record({ prompt: 'hi' }, result({ output: 'two' }));
+
+    const cassette = new Cassette({ mode: 'replay', path });
+    await cassette.load();
+    const outputs = [1, 2, 3].map(() => cassette.lookup({ prompt: ' hi ' })?.output);
+    expect(outputs).toEqual(['one', 'two', 'two']);
+    expect(() => cassette.lookup({ prompt: 'hi', model: 'opus' })).toThrow(
+      ClaudeCodeCassetteMissError
+    );
+  });
+
+  test('replay needs a readable cassette', async () => {
+    const replay = () => new Cassette({ mode: 'replay', path }).load();
+    await expect(replay()).rejects.toThrow(ClaudeCodeConfigError);
+    await new Cassette({ mode: 'record', path }).load();
+    await writeFile(path, '{"promptHash":\n');
+    await expect(replay()).rejects.toThrow('line 1');
+  });
+
+  test('passthrough records only misses', async () => {
+    const cassette = new Cassette({ mode: 'passthrough', path });
+    await cassette.load();
+    expect(cassette.lookup({ prompt: 'hi' })).toBeNull();
+    await cassette.record({ prompt: 'hi' }, result());
+    expect(cassette.lookup({ prompt: 'hi' })?.output).toBe('Hello');
+    expect(await lines()).toHaveLength(1);
+  });
+});
+
+describe('ClaudeCodeService with a cassette', () => {
+  async function start(
+    cassette: Record<string, unknown>,
+    executable: string
+  ): Promise<ClaudeCodeService> {
+    const runtime = {
+      agentId: 'cassette-test',
+      character: {
+        settings: {
+          claudeCode: {
+            cassette,
+            executable,
+            env: { CLAUDE_CONFIG_DIR: dir },
+            sessionStorePath: join(dir, 'sessions.json'),
+            jobStorePath: join(dir, 'jobs.json'),
+          },
+        },
+      },
+    } as unknown as IAgentRuntime;
+    return (await ClaudeCodeService.start(runtime)) as ClaudeCodeService;
+  }
+
+  test('records through the CLI and replays without spawning', async () => {
+    const recorder = await start({ mode: 'record', path }, STUB);
+    expect((await recorder.invoke({ prompt: 'ping', model: 'haiku' })).output).toBe('ping');
+    await recorder.stop();
+    expect(await lines()).toHaveLength(1);
+
+    // A missing executable would fail every call that spawns
+    const player = await start({ mode: 'replay', path }, join(dir, 'no-such-claude'));
+    try {
+      const replayed = await player.invoke({ prompt: 'ping', model: 'haiku' });
+      expect(replayed).toMatchObject({ status: 'success', output: 'ping', exitCode: 0 });
+
+      const events: ClaudeStreamEvent[] = [];
+      for await (const event of player.invokeStream({ prompt: 'ping', model: 'haiku' })) {
+        events.push(event);
+      }
+      expect(events[0]).toEqual({ type: 'text', text: 'ping' });
+      expect(events[1]).toMatchObject({ type: 'result', result: { output: 'ping' } });
+
+      const miss = await player.invoke({ prompt: 'pong', model: 'haiku' });
+      expect(miss.status).toBe('config_error');
+      expect(miss.error).toBeInstanceOf(ClaudeCodeCassetteMissError);
+      const generated = player.generateText('pong');
+      await expect(generated).rejects.toBeInstanceOf(ClaudeCodeCassetteMissError);
+    } finally {
+      await player.stop();
+    }
+  });
+
+  test('replays an auth error without touching auth state or metrics', async () => {
+    const recorder = new Cassette({ mode: 'record', path });
+    await recorder.load();
+    const stderr = 'OAuth token has expired';
+    await recorder.record({ prompt: 'hi' }, result({ output: '', stderr, exitCode: 1 }));
+
+    const emitted: string[] = [];
+    const runtime = {
+      emitEvent: async (event: string) => void emitted.push(event),
+    } as unknown as IAgentRuntime;
+    const service = new ClaudeCodeService(runtime, new FakeProcessRunner());
+    const cassette = new Cassette({ mode: 'replay', path });
+    await cassette.load();
+    Object.assign(service, { cassette });
+
+    const replayed = await service.invoke({ prompt: 'hi' });
+    expect(replayed.status).toBe('auth_error');
+    expect(replayed.error).toBeInstanceOf(ClaudeCodeAuthError);
+    expect(emitted).toEqual([]);
+    expect(service.getStats().invocations).toEqual({});
+  });
+});
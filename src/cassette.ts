@@ -0,0 +1,209 @@
+import { logger } from '@elizaos/core';
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { ClaudeCodeCassetteMissError, ClaudeCodeConfigError } from './errors';
+import type {
+  CassetteConfig,
+  CassetteEntry,
+  CassetteMode,
+  ClaudeInvokeOptions,
+  ClaudeInvokeResult,
+} from './types';
+
+const MODES: CassetteMode[] = ['record', 'replay', 'passthrough'];
+
+/**
+ * Read `claudeCode.cassette` ({ mode, path }). CLAUDE_CODE_CASSETTE (path) and
+ * CLAUDE_CODE_CASSETTE_MODE override the settings, so a test run can switch
+ * modes without editing the character. The mode defaults to 'replay'.
+ * Returns null when no cassette path is configured.
+ */
+export function cassetteConfigFromSettings(
+  settings: unknown,
+  env: Record<string, string | undefined> = process.env
+): CassetteConfig | null {
+  const s = settings && typeof settings === 'object' ? (settings as Record<string, unknown>) : {};
+  const path = env.CLAUDE_CODE_CASSETTE || (typeof s.path === 'string' ? s.path : '');
+  if (!path) return null;
+
+  const mode = env.CLAUDE_CODE_CASSETTE_MODE || s.mode || 'replay';
+  if (!MODES.includes(mode as CassetteMode)) {
+    throw new ClaudeCodeConfigError('cassette mode must be record, replay or passthrough');
+  }
+  return { mode: mode as CassetteMode, path };
+}
+
+/**
+ * Normalize prompt text so runs that differ only in volatile details hash the
+ * same: UUIDs (room and entity ids), ISO timestamps, epoch milliseconds and
+ * whitespace are ignored.
+ */
+export function normalizePrompt(text: string): string {
+  return text
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+    .replace(/\b1\d{12}\b/g, '<time>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash of what the model sees: the normalized system prompt and prompt or messages
+ */
+export function promptHash(options: ClaudeInvokeOptions): string {
+  const input = options.messages
+    ? options.messages.map((m) => [m.role, normalizePrompt(m.content)])
+    : normalizePrompt(options.prompt ?? '');
+  const key = JSON.stringify([normalizePrompt(options.systemPrompt ?? ''), input]);
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Options worth keeping in a cassette line: no prompt (hashed instead), file
+ * contents, signal or MCP server commands and env
+ */
+function recordedOptions(options: ClaudeInvokeOptions): Record<string, unknown> {
+  const {
+    prompt: _prompt,
+    messages: _messages,
+    systemPrompt: _systemPrompt,
+    signal: _signal,
+    files,
+    mcpServers,
+    ...rest
+  } = options;
+  return {
+    ...rest,
+    ...(files && { files: files.map((f) => f.path) }),
+    ...(mcpServers && { mcpServers: Object.keys(mcpServers) }),
+  };
+}
+
+/**
+ * Records invocations to a JSONL cassette and serves them back, so agent tests
+ * run without spawning the CLI and get the same outputs every time. Calls are
+ * matched by model and promptHash(); a prompt recorded several times is
+ * answered in recording order, repeating the last answer.
+ */
+export class Cassette {
+  private entries = new Map<string, CassetteEntry[]>();
+  private served = new Map<string, number>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly config: CassetteConfig) {}
+
+  get mode(): CassetteMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Read the cassette. Record mode starts a fresh one instead; replay mode
+   * needs an existing, valid cassette and throws ClaudeCodeConfigError otherwise.
+   */
+  async load(): Promise<void> {
+    const { mode, path } = this.config;
+    if (mode !== 'replay') {
+      await mkdir(dirname(path), { recursive: true });
+    }
+    if (mode === 'record') {
+      await writeFile(path, '');
+      logger.info(`[claude-code] recording invocations to ${path}`);
+      return;
+    }
+
+    let raw = '';
+    try {
+      raw = await readFile(path, 'utf-8');
+    } catch (error) {
+      if (mode === 'replay') {
+        throw new ClaudeCodeConfigError(`cannot read cassette ${path}`, { cause: error });
+      }
+    }
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      let entry: CassetteEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        throw new ClaudeCodeConfigError(`invalid cassette line ${index + 1} in ${path}`, {
+          cause: error,
+        });
+      }
+      this.add(entry);
+    });
+    logger.info(`[claude-code] ${mode} from ${path} (${this.size} recorded invocations)`);
+  }
+
+  /**
+   * Recorded invocation for a call, or null when it should run. Throws
+   * ClaudeCodeCassetteMissError on a miss in replay mode.
+   */
+  lookup(options: ClaudeInvokeOptions): CassetteEntry | null {
+    if (this.mode === 'record') return null;
+    const model = options.model ?? 'sonnet';
+    const hash = promptHash(options);
+    const key = `${model}:${hash}`;
+    const entries = this.entries.get(key);
+    if (!entries) {
+      if (this.mode === 'passthrough') return null;
+      logger.error(`[claude-code] cassette miss for model=${model} prompt ${hash}`);
+      throw new ClaudeCodeCassetteMissError(hash, { model });
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return entries[Math.min(index, entries.length - 1)];
+  }
+
+  /**
+   * Append a finished call. Calls stopped before the CLI exited (timeouts,
+   * cancels, spawn failures) are not recorded, and replay mode records nothing.
+   */
+  record(options: ClaudeInvokeOptions, result: ClaudeInvokeResult): Promise<void> {
+    if (this.mode === 'replay' || result.exitCode === null) return this.writing;
+    const { sessionId, numTurns, usage, totalCostUsd, isError, subtype } = result;
+    const metadata = { sessionId, numTurns, usage, totalCostUsd, isError, subtype };
+    const entry: CassetteEntry = {
+      promptHash: promptHash(options),
+      model: options.model ?? 'sonnet',
+      options: recordedOptions(options),
+      output: result.output,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      duration: result.duration,
+      metadata: JSON.parse(JSON.stringify(metadata)), // drops unset fields
+      recordedAt: Date.now(),
+    };
+    this.add(entry);
+
+    this.writing = this.writing.then(async () => {
+      try {
+        await appendFile(this.config.path, `${JSON.stringify(entry)}\n`);
+      } catch (error) {
+        logger.warn(`[claude-code] failed to record to ${this.config.path}: ${error}`);
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  get size(): number {
+    let size = 0;
+    for (const entries of this.entries.values()) size += entries.length;
+    return size;
+  }
+
+  private add(entry: CassetteEntry): void {
+    const key = `${entry.model}:${entry.promptHash}`;
+    const entries = this.entries.get(key) ?? [];
+    entries.push(entry);
+    this.entries.set(key, entries);
+  }
+}
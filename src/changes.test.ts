@@ -0,0 +1,144 @@
+/**
+ * Tests for workspace change capture (uses the git binary)
+ *
+ * Test cases:
+ * - In-place capture outside a repo: added, modified, deleted files and diff
+ * - Git-aware capture honours .gitignore
+ * - Worktree isolation carries uncommitted state and leaves the checkout alone
+ * - applyChanges from a repo subdirectory, discardChanges for copies
+ * - Isolated workspace removed when nothing changed
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ChangeCapture, applyChanges, discardChanges } from './changes';
+
+const dirs: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'changes-test-'));
+  dirs.push(dir);
+  return dir;
+}
+
+async function git(cwd: string, ...args: string[]): Promise<void> {
+  const proc = Bun.spawn(['git', '-c', 'user.name=t', '-c', 'user.email=t@t', ...args], {
+    cwd,
+    stdout: 'ignore',
+    stderr: 'ignore',
+  });
+  expect(await proc.exited).toBe(0);
+}
+
+async function repo(files: Record<string, string>): Promise<string> {
+  const dir = await tempDir();
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(dir, path, '..'), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+  await git(dir, 'init', '-q');
+  await git(dir, 'add', '-A');
+  await git(dir, 'commit', '-q', '-m', 'init');
+  return dir;
+}
+
+afterEach(async () => {
+  for (const dir of dirs.splice(0)) {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+describe('ChangeCapture', () => {
+  test('captures changes in a plain directory', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'keep.txt'), 'one\n');
+    await writeFile(join(dir, 'old.txt'), 'bye\n');
+
+    const capture = await ChangeCapture.start(dir, 'none');
+    await writeFile(join(dir, 'keep.txt'), 'one\ntwo\n');
+    await unlink(join(dir, 'old.txt'));
+    await writeFile(join(dir, 'new.bin'), Buffer.from([0, 1, 2, 0]));
+    const changes = await capture.finish();
+    await capture.dispose();
+
+    expect(changes.isolation).toBe('none');
+    expect(changes.files).toEqual([
+      { path: 'keep.txt', status: 'modified', additions: 1, deletions: 0, binary: false },
+      { path: 'new.bin', status: 'added', additions: 0, deletions: 0, binary: true },
+      { path: 'old.txt', status: 'deleted', additions: 0, deletions: 1, binary: false },
+    ]);
+    expect(changes.diff).toContain('+++ b/keep.txt\n@@ -1 +1,2 @@\n one\n+two\n');
+    expect(changes.diff).toContain('GIT binary patch');
+  });
+
+  test('ignores files matched by .gitignore', async () => {
+    const dir = await repo({ '.gitignore': 'build/\n', 'src/a.ts': 'a\n' });
+
+    const capture = await ChangeCapture.start(dir, 'none');
+    await mkdir(join(dir, 'build'));
+    await writeFile(join(dir, 'build/out.js'), 'x\n');
+    await writeFile(join(dir, 'src/a.ts'), 'b\n');
+    const changes = await capture.finish();
+    await capture.dispose();
+
+    expect(changes.files.map((f) => f.path)).toEqual(['src/a.ts']);
+  });
+
+  test('runs in a worktree with uncommitted state and applies back', async () => {
+    const dir = await repo({ 'pkg/a.ts': 'a\n', 'pkg/b.ts': 'b\n', 'top.md': 't\n' });
+    await writeFile(join(dir, 'pkg/b.ts'), 'b uncommitted\n');
+    const baseDir = join(dir, 'pkg');
+
+    const capture = await ChangeCapture.start(baseDir, 'worktree');
+    expect(capture.isolation).toBe('worktree');
+    expect(await readFile(join(capture.workDir, 'b.ts'), 'utf8')).toBe('b uncommitted\n');
+
+    await writeFile(join(capture.workDir, 'a.ts'), 'a changed\n');
+    await writeFile(join(capture.workDir, 'c.ts'), 'c\n');
+    const changes = await capture.finish();
+    await capture.dispose();
+
+    expect(changes.files.map((f) => `${f.status} ${f.path}`)).toEqual([
+      'modified a.ts',
+      'added c.ts',
+    ]);
+    expect(await readFile(join(baseDir, 'a.ts'), 'utf8')).toBe('a\n');
+    expect(existsSync(changes.workDir)).toBe(true);
+
+    await applyChanges(changes);
+    expect(await readFile(join(baseDir, 'a.ts'), 'utf8')).toBe('a changed\n');
+    expect(await readFile(join(baseDir, 'c.ts'), 'utf8')).toBe('c\n');
+    expect(existsSync(changes.workDir)).toBe(false);
+  });
+
+  test('falls back to a copy outside a repo and discards it', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.txt'), 'a\n');
+
+    const capture = await ChangeCapture.start(dir, 'worktree');
+    expect(capture.isolation).toBe('copy');
+    await writeFile(join(capture.workDir, 'a.txt'), 'b\n');
+    const changes = await capture.finish();
+    await capture.dispose();
+
+    expect(changes.files).toHaveLength(1);
+    expect(await readFile(join(dir, 'a.txt'), 'utf8')).toBe('a\n');
+    await discardChanges(changes);
+    expect(existsSync(changes.workDir)).toBe(false);
+  });
+
+  test('removes the isolated workspace when nothing changed', async () => {
+    const dir = await repo({ 'a.txt': 'a\n' });
+
+    const capture = await ChangeCapture.start(dir, 'worktree');
+    const changes = await capture.finish();
+    await capture.dispose();
+
+    expect(changes.files).toEqual([]);
+    expect(changes.diff).toBe('');
+    expect(existsSync(capture.workDir)).toBe(false);
+  });
+});
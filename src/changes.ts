@@ -0,0 +1,278 @@
+import { logger } from '@elizaos/core';
+import { cp, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+
+import type { WorkspaceChanges, WorkspaceFileChange, WorkspaceIsolation } from './types';
+
+/**
+ * Run git and return stdout, throwing with stderr on failure
+ */
+async function git(args: string[], cwd: string, env: Record<string, string> = {}): Promise<string> {
+  const proc = Bun.spawn(['git', ...args], {
+    cwd,
+    env: { ...process.env, ...env },
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (exitCode !== 0) {
+    throw new Error(`git ${args[0]} failed in ${cwd}: ${stderr.trim()}`);
+  }
+  return stdout;
+}
+
+/**
+ * Repository root and the path of dir inside it, or null outside a repo
+ */
+async function repoOf(dir: string): Promise<{ root: string; prefix: string } | null> {
+  try {
+    const output = await git(['rev-parse', '--show-toplevel', '--show-prefix'], dir);
+    const [root, prefix = ''] = output.split('\n').map((l) => l.trim());
+    return { root, prefix };
+  } catch {
+    return null;
+  }
+}
+
+function tempBase(): string {
+  return process.env.TMPDIR || tmpdir();
+}
+
+/**
+ * Records directory states as git trees using a private index. Inside a repo
+ * the trees go to the repo's object store and .gitignore applies; elsewhere a
+ * throwaway bare repo holds them.
+ */
+class Snapshotter {
+  private constructor(
+    private dir: string,
+    private tempDir: string,
+    private env: Record<string, string>
+  ) {}
+
+  static async open(dir: string): Promise<Snapshotter> {
+    const tempDir = await mkdtemp(join(tempBase(), 'claude-snapshot-'));
+    const env: Record<string, string> = { GIT_INDEX_FILE: join(tempDir, 'index') };
+    try {
+      if (await repoOf(dir)) {
+        // Start from HEAD so tracked files matching .gitignore are kept
+        await git(['read-tree', 'HEAD'], dir, env).catch(() => {}); // no commits yet
+      } else {
+        const gitDir = join(tempDir, 'git');
+        await git(['init', '--bare', '-q', gitDir], dir);
+        env.GIT_DIR = gitDir;
+        env.GIT_WORK_TREE = dir;
+      }
+    } catch (error) {
+      await rm(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+    return new Snapshotter(dir, tempDir, env);
+  }
+
+  /**
+   * Current state of the directory as a tree id
+   */
+  async take(): Promise<string> {
+    await git(['add', '-A', '--', '.'], this.dir, this.env);
+    return (await git(['write-tree'], this.dir, this.env)).trim();
+  }
+
+  /**
+   * Changed files and unified diff between two trees, relative to the directory
+   */
+  async diff(
+    before: string,
+    after: string
+  ): Promise<{ files: WorkspaceFileChange[]; diff: string }> {
+    if (before === after) return { files: [], diff: '' };
+    const common = ['diff', '--no-color', '--no-ext-diff', '--no-renames', '--relative'];
+    const [nameStatus, numstat, diff] = await Promise.all([
+      git([...common, '--name-status', '-z', before, after], this.dir, this.env),
+      git([...common, '--numstat', '-z', before, after], this.dir, this.env),
+      git(
+        [...common, '--binary', '--src-prefix=a/', '--dst-prefix=b/', before, after],
+        this.dir,
+        this.env
+      ),
+    ]);
+
+    const counts = new Map<string, { additions: number; deletions: number; binary: boolean }>();
+    for (const entry of numstat.split('\0')) {
+      const [added, removed, path] = entry.split('\t');
+      if (!path) continue;
+      const binary = added === '-';
+      counts.set(path, {
+        additions: binary ? 0 : Number(added),
+        deletions: binary ? 0 : Number(removed),
+        binary,
+      });
+    }
+
+    const files: WorkspaceFileChange[] = [];
+    const fields = nameStatus.split('\0');
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const [code, path] = [fields[i], fields[i + 1]];
+      const status = code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified';
+      files.push({
+        path,
+        status,
+        ...(counts.get(path) ?? { additions: 0, deletions: 0, binary: false }),
+      });
+    }
+    return { files, diff };
+  }
+
+  async close(): Promise<void> {
+    await rm(this.tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Create an isolated workspace for baseDir. 'worktree' checks out a detached
+ * worktree with the uncommitted state of baseDir applied; outside a repo (or
+ * without commits) it falls back to a plain copy.
+ */
+async function isolate(
+  baseDir: string,
+  isolation: Exclude<WorkspaceIsolation, 'none'>
+): Promise<{ workDir: string; isolation: Exclude<WorkspaceIsolation, 'none'> }> {
+  const root = await mkdtemp(join(tempBase(), 'claude-isolated-'));
+  try {
+    const repo = isolation === 'worktree' ? await repoOf(baseDir) : null;
+    if (repo) {
+      try {
+        const snapshots = await Snapshotter.open(baseDir);
+        const tree = await snapshots.take().finally(() => snapshots.close());
+        const worktree = join(root, 'worktree');
+        await git(['worktree', 'add', '--detach', '-q', worktree, 'HEAD'], baseDir);
+        await git(['read-tree', '--reset', '-u', tree], worktree);
+        return { workDir: resolve(worktree, repo.prefix), isolation: 'worktree' };
+      } catch (error) {
+        logger.warn(`[claude-code] git worktree failed, copying instead: ${error}`);
+        await git(['worktree', 'prune'], baseDir).catch(() => {});
+      }
+    } else if (isolation === 'worktree') {
+      logger.debug(`[claude-code] ${baseDir} is not a git repo, copying instead of worktree`);
+    }
+
+    const copy = join(root, 'copy');
+    await cp(baseDir, copy, { recursive: true, verbatimSymlinks: true });
+    return { workDir: copy, isolation: 'copy' };
+  } catch (error) {
+    await rm(root, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Snapshot a workspace before a run and diff it afterwards, optionally
+ * running in an isolated worktree or copy that is kept for review when the
+ * run changed something (see applyChanges / discardChanges).
+ */
+export class ChangeCapture {
+  private keep = false;
+
+  private constructor(
+    readonly baseDir: string,
+    readonly workDir: string,
+    readonly isolation: WorkspaceIsolation,
+    private snapshots: Snapshotter,
+    private before: string
+  ) {}
+
+  static async start(baseDir: string, isolation: WorkspaceIsolation): Promise<ChangeCapture> {
+    let workDir = baseDir;
+    let used: WorkspaceIsolation = 'none';
+    if (isolation !== 'none') {
+      ({ workDir, isolation: used } = await isolate(baseDir, isolation));
+      logger.info(`[claude-code] isolated ${baseDir} in ${workDir} (${used})`);
+    }
+
+    let snapshots: Snapshotter | null = null;
+    try {
+      snapshots = await Snapshotter.open(workDir);
+      const before = await snapshots.take();
+      return new ChangeCapture(baseDir, workDir, used, snapshots, before);
+    } catch (error) {
+      await snapshots?.close();
+      await discardChanges({ baseDir, workDir, isolation: used });
+      throw error;
+    }
+  }
+
+  /**
+   * Diff the workspace against the snapshot taken at start. An isolated
+   * workspace is kept only if something changed.
+   */
+  async finish(): Promise<WorkspaceChanges> {
+    const after = await this.snapshots.take();
+    const { files, diff } = await this.snapshots.diff(this.before, after);
+    this.keep = files.length > 0;
+    return {
+      isolation: this.isolation,
+      baseDir: this.baseDir,
+      workDir: this.workDir,
+      files,
+      diff,
+    };
+  }
+
+  /**
+   * Release snapshot state, removing the isolated workspace unless finish()
+   * returned changes from it
+   */
+  async dispose(): Promise<void> {
+    await this.snapshots.close();
+    if (!this.keep) {
+      await discardChanges(this);
+    }
+  }
+}
+
+/**
+ * Remove the isolated workspace of a change-capturing run (no-op in place)
+ */
+export async function discardChanges(
+  changes: Pick<WorkspaceChanges, 'isolation' | 'baseDir' | 'workDir'>
+): Promise<void> {
+  if (changes.isolation === 'none') return;
+  let root = changes.workDir;
+  if (changes.isolation === 'worktree') {
+    root = (await repoOf(changes.workDir))?.root ?? root;
+    await git(['worktree', 'remove', '--force', root], changes.baseDir).catch(() => {});
+  }
+  await rm(dirname(root), { recursive: true, force: true }).catch(() => {});
+  if (changes.isolation === 'worktree') {
+    await git(['worktree', 'prune'], changes.baseDir).catch(() => {});
+  }
+  logger.debug(`[claude-code] removed isolated workspace ${root}`);
+}
+
+/**
+ * Apply the diff of an isolated run to its baseDir, then remove the isolated
+ * workspace. Throws (keeping the workspace) if the patch does not apply.
+ */
+export async function applyChanges(changes: WorkspaceChanges): Promise<void> {
+  if (changes.isolation === 'none') return; // already in place
+  if (changes.diff) {
+    const tempDir = await mkdtemp(join(tempBase(), 'claude-patch-'));
+    try {
+      const patch = join(tempDir, 'changes.patch');
+      await Bun.write(patch, changes.diff);
+      // Inside a repo git apply takes paths from the top level
+      const repo = await repoOf(changes.baseDir);
+      const args = ['apply', '--binary', '--whitespace=nowarn'];
+      if (repo?.prefix) args.push(`--directory=${repo.prefix.replace(/\/$/, '')}`);
+      await git([...args, patch], repo?.root ?? changes.baseDir);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+  await discardChanges(changes);
+}
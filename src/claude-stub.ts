@@ -0,0 +1,72 @@
+#!/usr/bin/env bun
+/**
+ * Scriptable stand-in for the `claude` executable, for offline tests of the
+ * real spawn path. Point `executable` at this file and script it with env
+ * variables (e.g., via the `env` setting):
+ *
+ * - CLAUDE_STUB_STDOUT - text printed to stdout (default: echo the prompt, from the
+ *   -p argument or stdin)
+ * - CLAUDE_STUB_STDERR - text printed to stderr
+ * - CLAUDE_STUB_EXIT - exit code (default 0)
+ * - CLAUDE_STUB_DELAY - milliseconds to wait before printing
+ * - CLAUDE_STUB_REPEAT - print stdout this many times (large outputs)
+ * - CLAUDE_STUB_HANG - never exit (until killed)
+ * - CLAUDE_STUB_ARGS_FILE - write argv, cwd and CLAUDE_CONFIG_DIR here as JSON
+ *
+ * With `--input-format stream-json` each user turn read from stdin is answered
+ * with a result line (echoing its text unless CLAUDE_STUB_STDOUT is set) until
+ * stdin closes.
+ */
+
+import { writeFileSync } from 'node:fs';
+
+const env = process.env;
+const args = process.argv.slice(2);
+
+if (env.CLAUDE_STUB_ARGS_FILE) {
+  writeFileSync(
+    env.CLAUDE_STUB_ARGS_FILE,
+    JSON.stringify({ args, cwd: process.cwd(), configDir: env.CLAUDE_CONFIG_DIR ?? null })
+  );
+}
+
+if (env.CLAUDE_STUB_DELAY) {
+  await Bun.sleep(Number(env.CLAUDE_STUB_DELAY));
+}
+
+const promptIndex = args.indexOf('-p');
+const promptArg = promptIndex >= 0 ? args[promptIndex + 1] : undefined;
+const inputIndex = args.indexOf('--input-format');
+
+if (inputIndex >= 0 && args[inputIndex + 1] === 'stream-json') {
+  for await (const line of console) {
+    if (!line.trim()) continue;
+    const content: { text?: string }[] = JSON.parse(line).message?.content ?? [];
+    const result = env.CLAUDE_STUB_STDOUT ?? content.map((block) => block.text ?? '').join('\n');
+    console.log(JSON.stringify({ type: 'result', subtype: 'success', result }));
+  }
+  process.exit(Number(env.CLAUDE_STUB_EXIT ?? 0));
+}
+
+// Without a prompt argument the CLI reads the prompt from stdin
+const prompt =
+  promptArg !== undefined && !promptArg.startsWith('--')
+    ? promptArg
+    : promptIndex >= 0
+      ? await Bun.stdin.text()
+      : '';
+const stdout = env.CLAUDE_STUB_STDOUT ?? prompt;
+const repeat = Number(env.CLAUDE_STUB_REPEAT ?? 1);
+
+for (let i = 0; i < repeat; i++) {
+  await Bun.write(Bun.stdout, stdout);
+}
+if (env.CLAUDE_STUB_STDERR) {
+  await Bun.write(Bun.stderr, env.CLAUDE_STUB_STDERR);
+}
+
+if (env.CLAUDE_STUB_HANG) {
+  await new Promise(() => setInterval(() => {}, 1000));
+}
+
+process.exit(Number(env.CLAUDE_STUB_EXIT ?? 0));
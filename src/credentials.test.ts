@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the credential watcher
+ *
+ * Test cases:
+ * - Config dir resolution
+ * - Auth lost / restored transitions from the credentials file
+ * - One expiry warning per threshold, reset for a new token
+ * - Token rejected by the CLI stays lost until it changes
+ * - File changes are picked up without polling
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CredentialWatcher, resolveConfigDir } from './credentials';
+import type { ClaudeAuthEvent } from './types';
+
+const HOUR = 3600000;
+
+let dir: string;
+let events: ClaudeAuthEvent[];
+
+async function writeCreds(accessToken: string, expiresIn: number) {
+  await writeFile(
+    join(dir, '.credentials.json'),
+    JSON.stringify({
+      claudeAiOauth: {
+        accessToken,
+        refreshToken: 'r',
+        expiresAt: Date.now() + expiresIn,
+        scopes: [],
+        subscriptionType: 'pro',
+      },
+    })
+  );
+}
+
+function watcher(warnBefore = [24 * HOUR, HOUR]) {
+  return new CredentialWatcher({
+    configDir: dir,
+    checkInterval: 0,
+    warnBefore,
+    onEvent: (e) => void events.push(e),
+  });
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-creds-test-'));
+  events = [];
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('resolveConfigDir', () => {
+  test('prefers explicit dir, then CLAUDE_CONFIG_DIR, then ~/.claude', () => {
+    const saved = process.env.CLAUDE_CONFIG_DIR;
+    try {
+      expect(resolveConfigDir('/explicit')).toBe('/explicit');
+      process.env.CLAUDE_CONFIG_DIR = '/from-env';
+      expect(resolveConfigDir()).toBe('/from-env');
+      delete process.env.CLAUDE_CONFIG_DIR;
+      expect(resolveConfigDir()).toBe(join(homedir(), '.claude'));
+    } finally {
+      if (saved === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+      else process.env.CLAUDE_CONFIG_DIR = saved;
+    }
+  });
+});
+
+describe('CredentialWatcher', () => {
+  test('reports auth lost and restored', async () => {
+    const w = watcher();
+    expect((await w.check()).authenticated).toBe(false);
+
+    await writeCreds('a', 48 * HOUR);
+    expect((await w.check()).subscriptionType).toBe('pro');
+    await writeCreds('a', -1000);
+    await w.check();
+
+    expect(events.map((e) => e.type)).toEqual(['auth_restored', 'auth_lost']);
+    expect(events[1].status.needsLogin).toBe(true);
+  });
+
+  test('warns once per threshold', async () => {
+    await writeCreds('a', 30 * HOUR);
+    const w = watcher();
+    await w.check();
+    expect(events).toHaveLength(0);
+
+    await writeCreds('a', 2 * HOUR);
+    await w.check();
+    await w.check();
+    expect(events.map((e) => e.type)).toEqual(['auth_expiring']);
+    expect(events[0].expiresIn).toBeLessThanOrEqual(2 * HOUR);
+
+    // Crossing both remaining thresholds at once emits a single event
+    await writeCreds('b', 30 * 60000);
+    await w.check();
+    expect(events).toHaveLength(2);
+  });
+
+  test('token rejected by the CLI stays lost until it changes', async () => {
+    await writeCreds('a', 48 * HOUR);
+    const w = watcher();
+    await w.check();
+
+    w.markLost();
+    w.markLost();
+    expect((await w.check()).authenticated).toBe(false);
+
+    await writeCreds('b', 48 * HOUR);
+    expect((await w.check()).authenticated).toBe(true);
+    expect(events.map((e) => [e.type, e.reason])).toEqual([
+      ['auth_lost', 'cli'],
+      ['auth_restored', 'credentials'],
+    ]);
+  });
+
+  test('picks up file changes', async () => {
+    const w = watcher();
+    await w.start();
+    try {
+      await writeCreds('a', 48 * HOUR);
+      for (let i = 0; i < 100 && events.length === 0; i++) await Bun.sleep(20);
+      expect(events.map((e) => e.type)).toEqual(['auth_restored']);
+      expect(w.getStatus()?.authenticated).toBe(true);
+    } finally {
+      w.stop();
+    }
+  });
+});
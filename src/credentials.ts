@@ -0,0 +1,220 @@
+import { logger } from '@elizaos/core';
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import type { AuthStatus, ClaudeAuthEvent, ClaudeCredentials } from './types';
+
+const CREDENTIALS_FILE = '.credentials.json';
+const DEFAULT_CHECK_INTERVAL = 60000; // 1 minute
+/**
+ * Warn 1h and 10min before the token expires. Access tokens routinely live
+ * less than a day, so an earlier warning would fire on every start.
+ */
+export const DEFAULT_WARN_BEFORE = [3600000, 600000];
+
+/**
+ * Claude config directory: explicit setting, then CLAUDE_CONFIG_DIR, then ~/.claude
+ */
+export function resolveConfigDir(configDir?: string): string {
+  return configDir || process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude');
+}
+
+/**
+ * Read credentials, returning the auth status and the access token
+ */
+async function readCredentials(path: string): Promise<{ status: AuthStatus; token?: string }> {
+  try {
+    const content = await readFile(path, 'utf-8');
+    const creds: ClaudeCredentials = JSON.parse(content);
+
+    if (!creds.claudeAiOauth) {
+      return { status: { authenticated: false, needsLogin: true } };
+    }
+
+    const { expiresAt, subscriptionType, accessToken } = creds.claudeAiOauth;
+
+    if (!accessToken) {
+      return { status: { authenticated: false, needsLogin: true } };
+    }
+
+    const now = Date.now();
+    const isExpired = expiresAt && expiresAt < now;
+
+    return {
+      status: {
+        authenticated: !isExpired,
+        expiresAt,
+        subscriptionType,
+        needsLogin: isExpired || false,
+      },
+      token: accessToken,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { status: { authenticated: false, needsLogin: true, error: msg } };
+  }
+}
+
+export interface CredentialWatcherOptions {
+  /** Claude config directory holding .credentials.json */
+  configDir: string;
+  /** Re-read interval in ms (0 = file changes only) */
+  checkInterval?: number;
+  /** Warn when the token expires within these many ms */
+  warnBefore?: number[];
+  onEvent?: (event: ClaudeAuthEvent) => void;
+}
+
+/**
+ * Watches the CLI credentials file (fs watch plus a timer) and reports auth
+ * lost / restored transitions and upcoming token expiry. A token rejected by
+ * the CLI (markLost) counts as lost until the credentials file changes.
+ */
+export class CredentialWatcher {
+  readonly path: string;
+  private checkInterval: number;
+  private warnBefore: number[];
+  private onEvent: (event: ClaudeAuthEvent) => void;
+
+  private status: AuthStatus | null = null;
+  private token?: string;
+  /** Token the CLI rejected; stays lost until the token changes */
+  private rejectedToken: string | null = null;
+  /** Thresholds already warned about for warnedExpiresAt */
+  private warned = new Set<number>();
+  private warnedExpiresAt?: number;
+  private watcher: FSWatcher | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<AuthStatus> | null = null;
+
+  constructor(options: CredentialWatcherOptions) {
+    this.path = join(options.configDir, CREDENTIALS_FILE);
+    this.checkInterval = options.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+    this.warnBefore = [...(options.warnBefore ?? DEFAULT_WARN_BEFORE)].sort((a, b) => b - a);
+    this.onEvent = options.onEvent ?? (() => {});
+  }
+
+  /**
+   * Read credentials once, then watch the file and poll on the interval
+   */
+  async start(): Promise<AuthStatus> {
+    const status = await this.check();
+
+    const dir = dirname(this.path);
+    try {
+      // Watch the directory: the CLI replaces the file rather than editing it
+      this.watcher = watch(dir, (_event, filename) => {
+        if (!filename || filename === CREDENTIALS_FILE) {
+          this.check().catch(() => {});
+        }
+      });
+      this.watcher.on('error', () => {});
+      this.watcher.unref?.();
+    } catch (error) {
+      logger.debug(`[claude-code] cannot watch ${dir}, polling only: ${error}`);
+    }
+
+    if (this.checkInterval > 0) {
+      this.timer = setInterval(() => {
+        this.check().catch(() => {});
+      }, this.checkInterval);
+      this.timer.unref?.();
+    }
+
+    return status;
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Last known status, or null before the first check
+   */
+  getStatus(): AuthStatus | null {
+    return this.status;
+  }
+
+  /**
+   * Re-read credentials and report changes (concurrent calls share one read)
+   */
+  check(): Promise<AuthStatus> {
+    if (!this.pending) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * The CLI rejected the current token: report auth lost until it changes
+   */
+  markLost(): void {
+    this.rejectedToken = this.token ?? '';
+    const status: AuthStatus = {
+      ...(this.status ?? {}),
+      authenticated: false,
+      needsLogin: true,
+    };
+    const wasAuthenticated = this.status?.authenticated !== false;
+    this.status = status;
+    if (wasAuthenticated) {
+      this.onEvent({ type: 'auth_lost', status, reason: 'cli' });
+    }
+  }
+
+  private async refresh(): Promise<AuthStatus> {
+    const { status, token } = await readCredentials(this.path);
+
+    if (this.rejectedToken !== null) {
+      if (token !== undefined && token !== this.rejectedToken) {
+        this.rejectedToken = null;
+      } else if (status.authenticated) {
+        status.authenticated = false;
+        status.needsLogin = true;
+      }
+    }
+
+    const previous = this.status;
+    this.status = status;
+    this.token = token;
+
+    if (previous && previous.authenticated !== status.authenticated) {
+      const type = status.authenticated ? 'auth_restored' : 'auth_lost';
+      this.onEvent({ type, status, reason: 'credentials' });
+    }
+
+    if (status.authenticated && status.expiresAt) {
+      this.checkExpiry(status);
+    }
+
+    return status;
+  }
+
+  /**
+   * Emit one auth_expiring event per threshold crossed (per token)
+   */
+  private checkExpiry(status: AuthStatus): void {
+    if (status.expiresAt !== this.warnedExpiresAt) {
+      this.warned.clear();
+      this.warnedExpiresAt = status.expiresAt;
+    }
+
+    const expiresIn = status.expiresAt! - Date.now();
+    const crossed = this.warnBefore.filter((t) => expiresIn <= t && !this.warned.has(t));
+    if (crossed.length === 0) return;
+
+    // Several thresholds crossed at once (e.g., at startup) produce one event
+    for (const threshold of crossed) this.warned.add(threshold);
+    this.onEvent({ type: 'auth_expiring', status, reason: 'credentials', expiresIn });
+  }
+}
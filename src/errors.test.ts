@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the typed error hierarchy
+ *
+ * Test cases:
+ * - All errors extend ClaudeCodeError and Error
+ * - Structured fields (model, exitCode, stderr, duration)
+ * - Names and messages per class
+ * - Cancelled error keeps the abort reason
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  ClaudeCodeError,
+  ClaudeCodeAuthError,
+  ClaudeCodeCancelledError,
+  ClaudeCodeEmptyOutputError,
+  ClaudeCodeExitError,
+  ClaudeCodeQueueTimeoutError,
+  ClaudeCodeSpawnError,
+  ClaudeCodeConfigError,
+  ClaudeCodeImageError,
+  ClaudeCodeTimeoutError,
+  ClaudeCodeUsageLimitError,
+} from './errors';
+
+describe('ClaudeCodeError hierarchy', () => {
+  test('subclasses are instances of ClaudeCodeError', () => {
+    const errors = [
+      new ClaudeCodeTimeoutError(1000),
+      new ClaudeCodeQueueTimeoutError(1000),
+      new ClaudeCodeCancelledError(),
+      new ClaudeCodeAuthError(),
+      new ClaudeCodeUsageLimitError('rate_limit', undefined),
+      new ClaudeCodeEmptyOutputError(),
+      new ClaudeCodeSpawnError('spawn claude ENOENT'),
+      new ClaudeCodeConfigError('unknown MCP server'),
+      new ClaudeCodeImageError('image too large'),
+      new ClaudeCodeExitError({ exitCode: 2 }),
+    ];
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(ClaudeCodeError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe(error.constructor.name);
+    }
+  });
+
+  test('carries structured fields', () => {
+    const error = new ClaudeCodeExitError({
+      model: 'opus',
+      exitCode: 2,
+      stderr: 'boom',
+      duration: 1500,
+    });
+    expect(error.model).toBe('opus');
+    expect(error.exitCode).toBe(2);
+    expect(error.stderr).toBe('boom');
+    expect(error.duration).toBe(1500);
+    expect(error.message).toBe('exited with code 2: boom');
+  });
+
+  test('defaults exitCode to null and stderr to empty', () => {
+    const error = new ClaudeCodeTimeoutError(120000, { model: 'sonnet' });
+    expect(error.exitCode).toBeNull();
+    expect(error.stderr).toBe('');
+    expect(error.timeout).toBe(120000);
+    expect(error.message).toBe('exceeded 120s');
+  });
+
+  test('usage limit error exposes kind and reset time', () => {
+    const resetAt = Date.UTC(2026, 0, 1, 15);
+    const error = new ClaudeCodeUsageLimitError('usage_limit', resetAt);
+    expect(error.kind).toBe('usage_limit');
+    expect(error.resetAt).toBe(resetAt);
+    expect(error.message).toBe('usage limit (resets 2026-01-01T15:00:00.000Z)');
+  });
+
+  test('cancelled error keeps the abort reason', () => {
+    expect(new ClaudeCodeCancelledError().message).toBe('cancelled');
+    const error = new ClaudeCodeCancelledError(new Error('user left'), { model: 'sonnet' });
+    expect(error.message).toBe('cancelled: user left');
+    expect(error.reason).toBeInstanceOf(Error);
+  });
+
+  test('spawn error keeps cause', () => {
+    const cause = new Error('ENOENT');
+    const error = new ClaudeCodeSpawnError('spawn claude ENOENT', { cause });
+    expect(error.cause).toBe(cause);
+  });
+});
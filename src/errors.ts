@@ -0,0 +1,200 @@
+import type { ClaudeErrorKind, ClaudeModel } from './types';
+
+/**
+ * Structured context attached to every ClaudeCodeError
+ */
+export interface ClaudeCodeErrorDetails {
+  /** Model the invocation ran with */
+  model?: ClaudeModel;
+  /** Process exit code, null if the process never exited on its own */
+  exitCode?: number | null;
+  /** Standard error from the CLI */
+  stderr?: string;
+  /** Duration of the invocation in milliseconds */
+  duration?: number;
+  /** Underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all Claude Code CLI failures
+ */
+export class ClaudeCodeError extends Error {
+  readonly model?: ClaudeModel;
+  readonly exitCode: number | null;
+  readonly stderr: string;
+  readonly duration?: number;
+
+  constructor(message: string, details: ClaudeCodeErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = 'ClaudeCodeError';
+    this.model = details.model;
+    this.exitCode = details.exitCode ?? null;
+    this.stderr = details.stderr ?? '';
+    this.duration = details.duration;
+  }
+}
+
+/**
+ * CLI did not finish within the timeout and was killed
+ */
+export class ClaudeCodeTimeoutError extends ClaudeCodeError {
+  readonly timeout: number;
+
+  constructor(timeout: number, details: ClaudeCodeErrorDetails = {}) {
+    super(`exceeded ${timeout / 1000}s`, details);
+    this.name = 'ClaudeCodeTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Caller aborted the invocation through its AbortSignal; the CLI and the
+ * processes it started were stopped
+ */
+export class ClaudeCodeCancelledError extends ClaudeCodeError {
+  /** `signal.reason`, if any */
+  readonly reason?: unknown;
+
+  constructor(reason?: unknown, details: ClaudeCodeErrorDetails = {}) {
+    // abort() without a reason gives a generic AbortError, not worth repeating
+    const why =
+      reason instanceof Error && reason.name !== 'AbortError'
+        ? reason.message
+        : typeof reason === 'string'
+          ? reason
+          : '';
+    super(why ? `cancelled: ${why}` : 'cancelled', details);
+    this.name = 'ClaudeCodeCancelledError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Call waited too long for a free slot in the invocation queue
+ */
+export class ClaudeCodeQueueTimeoutError extends ClaudeCodeError {
+  readonly queueTimeout: number;
+
+  constructor(queueTimeout: number, details: ClaudeCodeErrorDetails = {}) {
+    super(`waited ${queueTimeout / 1000}s for a slot`, details);
+    this.name = 'ClaudeCodeQueueTimeoutError';
+    this.queueTimeout = queueTimeout;
+  }
+}
+
+/**
+ * OAuth token missing, expired or rejected (run: claude login)
+ */
+export class ClaudeCodeAuthError extends ClaudeCodeError {
+  constructor(details: ClaudeCodeErrorDetails = {}) {
+    super('OAuth token expired or invalid. Run: claude login', details);
+    this.name = 'ClaudeCodeAuthError';
+  }
+}
+
+/**
+ * Subscription usage limit, rate limit or API overload
+ */
+export class ClaudeCodeUsageLimitError extends ClaudeCodeError {
+  readonly kind: Exclude<ClaudeErrorKind, 'auth'>;
+  /** When the limit resets (ms since epoch), if the CLI reported it */
+  readonly resetAt?: number;
+
+  constructor(
+    kind: Exclude<ClaudeErrorKind, 'auth'>,
+    resetAt: number | undefined,
+    details: ClaudeCodeErrorDetails = {}
+  ) {
+    const resets = resetAt ? ` (resets ${new Date(resetAt).toISOString()})` : '';
+    super(`${kind.replace('_', ' ')}${resets}`, details);
+    this.name = 'ClaudeCodeUsageLimitError';
+    this.kind = kind;
+    this.resetAt = resetAt;
+  }
+}
+
+/**
+ * CLI exited successfully but produced no output
+ */
+export class ClaudeCodeEmptyOutputError extends ClaudeCodeError {
+  constructor(details: ClaudeCodeErrorDetails = {}) {
+    super('Claude Code returned nothing', details);
+    this.name = 'ClaudeCodeEmptyOutputError';
+  }
+}
+
+/**
+ * CLI process could not be started (missing binary, workspace setup failure)
+ */
+export class ClaudeCodeSpawnError extends ClaudeCodeError {
+  constructor(message: string, details: ClaudeCodeErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ClaudeCodeSpawnError';
+  }
+}
+
+/**
+ * Invocation options or settings are invalid (e.g., unknown MCP server);
+ * the CLI was not started
+ */
+export class ClaudeCodeConfigError extends ClaudeCodeError {
+  constructor(message: string, details: ClaudeCodeErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ClaudeCodeConfigError';
+  }
+}
+
+/**
+ * Replay mode found no recorded invocation for the call; the cassette needs
+ * re-recording
+ */
+export class ClaudeCodeCassetteMissError extends ClaudeCodeConfigError {
+  readonly promptHash: string;
+
+  constructor(promptHash: string, details: ClaudeCodeErrorDetails = {}) {
+    const model = details.model ? ` model=${details.model}` : '';
+    super(`no cassette entry for prompt ${promptHash.slice(0, 12)}${model}`, details);
+    this.name = 'ClaudeCodeCassetteMissError';
+    this.promptHash = promptHash;
+  }
+}
+
+/**
+ * CLI exited with a non-zero code for an unrecognized reason
+ */
+export class ClaudeCodeExitError extends ClaudeCodeError {
+  constructor(details: ClaudeCodeErrorDetails = {}) {
+    const detail = details.stderr ? `: ${details.stderr.slice(0, 500)}` : '';
+    super(`exited with code ${details.exitCode}${detail}`, details);
+    this.name = 'ClaudeCodeExitError';
+  }
+}
+
+/**
+ * Object generation returned invalid JSON, even after one repair prompt
+ */
+export class ClaudeCodeObjectError extends ClaudeCodeError {
+  /** Last raw output */
+  readonly output: string;
+  /** Parse or schema validation errors */
+  readonly validationErrors: string[];
+
+  constructor(output: string, validationErrors: string[], details: ClaudeCodeErrorDetails = {}) {
+    super(`invalid object output: ${validationErrors.slice(0, 3).join('; ')}`, details);
+    this.name = 'ClaudeCodeObjectError';
+    this.output = output;
+    this.validationErrors = validationErrors;
+  }
+}
+
+/**
+ * Image for IMAGE_DESCRIPTION could not be loaded: bad URL or data URI,
+ * too large, or not a supported image type
+ */
+export class ClaudeCodeImageError extends ClaudeCodeError {
+  constructor(message: string, details: ClaudeCodeErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ClaudeCodeImageError';
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for image loading and description parsing
+ *
+ * Test cases:
+ * - Type detection from magic bytes
+ * - Bytes, data URIs and http URLs
+ * - Size limit, unsupported types and declared type mismatch
+ * - JSON and plain-text replies
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test';
+import { detectImageType, imagePrompt, loadImage, parseImageDescription } from './image';
+import { ClaudeCodeImageError } from './errors';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 16]);
+const WEBP = new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 ');
+
+const server = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const path = new URL(req.url).pathname;
+    if (path === '/cat.png') return new Response(PNG, { headers: { 'content-type': 'image/png' } });
+    if (path === '/big.png') return new Response(new Uint8Array(64).fill(1));
+    return new Response('not found', { status: 404 });
+  },
+});
+const base = `http://localhost:${server.port}`;
+
+afterAll(() => server.stop(true));
+
+describe('detectImageType', () => {
+  test('recognizes supported formats', () => {
+    expect(detectImageType(PNG)).toBe('image/png');
+    expect(detectImageType(JPEG)).toBe('image/jpeg');
+    expect(detectImageType(new TextEncoder().encode('GIF89a'))).toBe('image/gif');
+    expect(detectImageType(WEBP)).toBe('image/webp');
+    expect(detectImageType(new TextEncoder().encode('<svg/>'))).toBeNull();
+  });
+});
+
+describe('loadImage', () => {
+  test('accepts bytes and data URIs', async () => {
+    expect(await loadImage(JPEG)).toEqual({ data: JPEG, mimeType: 'image/jpeg' });
+    const uri = `data:image/png;base64,${Buffer.from(PNG).toString('base64')}`;
+    const loaded = await loadImage(uri);
+    expect(loaded.mimeType).toBe('image/png');
+    expect([...loaded.data]).toEqual([...PNG]);
+  });
+
+  test('fetches http URLs', async () => {
+    const loaded = await loadImage(`${base}/cat.png`);
+    expect(loaded.mimeType).toBe('image/png');
+    await expect(loadImage(`${base}/missing.png`)).rejects.toThrow('HTTP 404');
+    await expect(loadImage(`${base}/big.png`, { maxBytes: 32 })).rejects.toBeInstanceOf(
+      ClaudeCodeImageError
+    );
+  });
+
+  test('rejects bad input', async () => {
+    const svg = `data:image/svg+xml,${encodeURIComponent('<svg/>')}`;
+    const mismatch = `data:image/gif;base64,${Buffer.from(PNG).toString('base64')}`;
+    for (const input of ['/etc/passwd', 'data:nope', svg, mismatch, new Uint8Array()]) {
+      await expect(loadImage(input)).rejects.toBeInstanceOf(ClaudeCodeImageError);
+    }
+    await expect(loadImage(PNG, { maxBytes: 4 })).rejects.toThrow('limit is 4');
+  });
+});
+
+describe('parseImageDescription', () => {
+  test('parses JSON replies', () => {
+    const reply = '```json\n{"title": "A cat", "description": "A cat on a mat."}\n```';
+    expect(parseImageDescription(reply)).toEqual({
+      title: 'A cat',
+      description: 'A cat on a mat.',
+    });
+  });
+
+  test('falls back to plain text', () => {
+    expect(parseImageDescription('# A cat\nSitting on a mat.')).toEqual({
+      title: 'A cat',
+      description: '# A cat\nSitting on a mat.',
+    });
+  });
+
+  test('mentions the staged file and instructions', () => {
+    const prompt = imagePrompt('image.png', 'Focus on text in the image.');
+    expect(prompt).toContain('./image.png');
+    expect(prompt).toContain('Focus on text in the image.');
+  });
+});
@@ -0,0 +1,150 @@
+import { ClaudeCodeImageError } from './errors';
+import { extractJson } from './object';
+
+/**
+ * Image types the CLI's Read tool can show to the model, with file extensions
+ */
+export const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024; // CLI image limit
+const DEFAULT_FETCH_TIMEOUT = 30000;
+
+/**
+ * Image accepted by IMAGE_DESCRIPTION: http(s) URL, data URI or raw bytes
+ */
+export type ImageInput = string | Uint8Array | ArrayBuffer;
+
+/**
+ * Title and description returned by IMAGE_DESCRIPTION
+ */
+export interface ImageDescription {
+  title: string;
+  description: string;
+}
+
+/**
+ * Detect the image type from magic bytes, or null if unsupported
+ */
+export function detectImageType(data: Uint8Array): string | null {
+  const starts = (bytes: number[], offset = 0) => bytes.every((b, i) => data[offset + i] === b);
+  if (starts([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (starts([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (starts([0x47, 0x49, 0x46, 0x38])) return 'image/gif'; // GIF8
+  if (starts([0x52, 0x49, 0x46, 0x46]) && starts([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp'; // RIFF....WEBP
+  }
+  return null;
+}
+
+function decodeDataUri(uri: string): { data: Uint8Array; declared: string } {
+  const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+  if (!match) throw new ClaudeCodeImageError('malformed data URI');
+  const [, declared, params, payload] = match;
+  const data = params.split(';').includes('base64')
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload), 'binary');
+  return { data: new Uint8Array(data), declared: declared.toLowerCase() };
+}
+
+/**
+ * Read a response body, giving up as soon as it exceeds maxBytes
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const length = Number(response.headers.get('content-length'));
+  if (length > maxBytes) {
+    throw new ClaudeCodeImageError(`image is ${length} bytes, limit is ${maxBytes}`);
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body ?? []) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new ClaudeCodeImageError(`image exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Load an image and check its size and type. The type comes from the bytes;
+ * a declared type (data URI or Content-Type) that disagrees is rejected.
+ */
+export async function loadImage(
+  input: ImageInput,
+  options: { maxBytes?: number; fetchTimeout?: number } = {}
+): Promise<{ data: Uint8Array; mimeType: string }> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+  let data: Uint8Array;
+  let declared = '';
+
+  if (typeof input !== 'string') {
+    data = input instanceof Uint8Array ? input : new Uint8Array(input);
+  } else if (input.startsWith('data:')) {
+    ({ data, declared } = decodeDataUri(input));
+  } else if (/^https?:\/\//i.test(input)) {
+    let response: Response;
+    try {
+      response = await fetch(input, {
+        signal: AbortSignal.timeout(options.fetchTimeout ?? DEFAULT_FETCH_TIMEOUT),
+      });
+    } catch (error) {
+      throw new ClaudeCodeImageError(`failed to fetch image: ${error}`, { cause: error });
+    }
+    if (!response.ok) {
+      throw new ClaudeCodeImageError(`failed to fetch image: HTTP ${response.status}`);
+    }
+    declared = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    data = await readLimited(response, maxBytes);
+  } else {
+    throw new ClaudeCodeImageError('image must be an http(s) URL, a data URI or bytes');
+  }
+
+  if (data.length === 0) throw new ClaudeCodeImageError('image is empty');
+  if (data.length > maxBytes) {
+    throw new ClaudeCodeImageError(`image is ${data.length} bytes, limit is ${maxBytes}`);
+  }
+  const mimeType = detectImageType(data);
+  if (!mimeType) {
+    throw new ClaudeCodeImageError(
+      `unsupported image type${declared ? ` (${declared})` : ''}, expected PNG, JPEG, GIF or WebP`
+    );
+  }
+  // Servers often send application/octet-stream, only a different image type is suspicious
+  if (declared.startsWith('image/') && declared !== mimeType && declared !== 'image/jpg') {
+    throw new ClaudeCodeImageError(`image declared as ${declared} but is ${mimeType}`);
+  }
+  return { data, mimeType };
+}
+
+/**
+ * Prompt asking the CLI to read the staged image and describe it as JSON
+ */
+export function imagePrompt(path: string, instructions?: string): string {
+  return `Use the Read tool to open the image file ./${path} and look at it.
+${instructions ? `\n${instructions}\n` : ''}
+Reply with only a JSON object, no other text:
+{"title": "<short title, at most 10 words>", "description": "<detailed description>"}`;
+}
+
+/**
+ * Parse the CLI reply into a title and description. Falls back to the first
+ * line as title and the whole reply as description when it is not JSON.
+ */
+export function parseImageDescription(output: string): ImageDescription {
+  const value = extractJson(output) as Record<string, unknown> | undefined;
+  if (value && typeof value === 'object' && typeof value.description === 'string') {
+    return {
+      title: typeof value.title === 'string' ? value.title : '',
+      description: value.description,
+    };
+  }
+  const text = output.trim();
+  const title = text.split('\n')[0].replace(/^#+\s*/, '').slice(0, 100);
+  return { title, description: text };
+}
@@ -2,9 +2,33 @@ import type { Plugin, IAgentRuntime } from '@elizaos/core';
 import { logger } from '@elizaos/core';
 import { ClaudeCodeModelProvider } from './provider';
 import { ClaudeCodeService } from './service';
+import { runnerConfigFromSettings } from './runner';
+import { codeTaskAction } from './action';
+import { claudeCodeStatusProvider } from './status';
 
 let providerInstance: ClaudeCodeModelProvider | null = null;
 
+/**
+ * AbortSignal passed along in model params (not part of the ElizaOS types)
+ */
+function abortSignal(params: unknown): AbortSignal | undefined {
+  const { signal } = (params && typeof params === 'object' ? params : {}) as { signal?: unknown };
+  return signal instanceof AbortSignal ? signal : undefined;
+}
+
+/**
+ * Prompt, optional system prompt and abort signal from TEXT_* model params
+ */
+function textParams(params: unknown): { prompt: string; system?: string; signal?: AbortSignal } {
+  if (typeof params === 'string') return { prompt: params };
+  const { prompt, system } = (params ?? {}) as { prompt?: unknown; system?: unknown };
+  return {
+    prompt: typeof prompt === 'string' ? prompt : '',
+    system: typeof system === 'string' && system.trim() ? system : undefined,
+    signal: abortSignal(params),
+  };
+}
+
 function getProvider(runtime: IAgentRuntime): ClaudeCodeModelProvider {
   if (!providerInstance) {
     const settings = runtime.character?.settings as Record<string, unknown>;
@@ -13,7 +37,12 @@ function getProvider(runtime: IAgentRuntime): ClaudeCodeModelProvider {
     const timeout = (ccSettings?.timeout as number) || 120000;
 
     providerInstance = new ClaudeCodeModelProvider({
+      ...runnerConfigFromSettings(ccSettings),
       timeout,
+      truncation: ccSettings?.truncation as string | undefined,
+      systemPromptMode: ccSettings?.systemPromptMode === 'replace' ? 'replace' : 'append',
+      killGrace: typeof ccSettings?.killGrace === 'number' ? ccSettings.killGrace : undefined,
+      promptTransport: ccSettings?.promptTransport === 'argv' ? 'argv' : 'stdin',
     });
 
     logger.info(`[claude-code] model provider initialized (timeout=${timeout}ms)`);
@@ -28,27 +57,56 @@ export const claudeCodePlugin: Plugin = {
 
   services: [ClaudeCodeService],
 
+  // Model params carry no room, so these calls never use sessions (sessionKey)
   models: {
     TEXT_LARGE: async (runtime, params) => {
       const provider = getProvider(runtime);
-      const prompt = typeof params === 'string' ? params : (params as any).prompt || '';
+      const { prompt, system, signal } = textParams(params);
       const settings = runtime.character?.settings as Record<string, unknown>;
       const ccSettings = settings?.claudeCode as Record<string, unknown>;
       const model = (ccSettings?.largeModel as 'sonnet' | 'opus' | 'haiku') || 'sonnet';
-      return provider.generateText(runtime, prompt, model);
+      // Stream partial replies when the caller passed onStreamChunk (unless stream: false)
+      const onStreamChunk =
+        typeof params === 'string' || params.stream === false ? undefined : params.onStreamChunk;
+      return provider.generateText(runtime, prompt, model, { onStreamChunk, system, signal });
     },
     TEXT_SMALL: async (runtime, params) => {
       const provider = getProvider(runtime);
-      const prompt = typeof params === 'string' ? params : (params as any).prompt || '';
+      const { prompt, system, signal } = textParams(params);
+      const settings = runtime.character?.settings as Record<string, unknown>;
+      const ccSettings = settings?.claudeCode as Record<string, unknown>;
+      const model = (ccSettings?.smallModel as 'sonnet' | 'opus' | 'haiku') || 'haiku';
+      return provider.generateText(runtime, prompt, model, { system, signal });
+    },
+    OBJECT_LARGE: async (runtime, params) => {
+      const provider = getProvider(runtime);
+      const settings = runtime.character?.settings as Record<string, unknown>;
+      const ccSettings = settings?.claudeCode as Record<string, unknown>;
+      const model = (ccSettings?.largeModel as 'sonnet' | 'opus' | 'haiku') || 'sonnet';
+      const signal = abortSignal(params);
+      const object = await provider.generateObject(runtime, params, model, { signal });
+      return object as Record<string, unknown>;
+    },
+    OBJECT_SMALL: async (runtime, params) => {
+      const provider = getProvider(runtime);
       const settings = runtime.character?.settings as Record<string, unknown>;
       const ccSettings = settings?.claudeCode as Record<string, unknown>;
       const model = (ccSettings?.smallModel as 'sonnet' | 'opus' | 'haiku') || 'haiku';
-      return provider.generateText(runtime, prompt, model);
+      const signal = abortSignal(params);
+      const object = await provider.generateObject(runtime, params, model, { signal });
+      return object as Record<string, unknown>;
+    },
+    IMAGE_DESCRIPTION: async (runtime, params) => {
+      const provider = getProvider(runtime);
+      const settings = runtime.character?.settings as Record<string, unknown>;
+      const ccSettings = settings?.claudeCode as Record<string, unknown>;
+      const model = (ccSettings?.imageModel as 'sonnet' | 'opus' | 'haiku') || 'sonnet';
+      return provider.describeImage(runtime, params, model, { signal: abortSignal(params) });
     },
   },
 
-  actions: [],
-  providers: [],
+  actions: [codeTaskAction],
+  providers: [claudeCodeStatusProvider],
   evaluators: [],
 };
 
@@ -57,3 +115,34 @@ export default claudeCodePlugin;
 export { ClaudeCodeModelProvider } from './provider';
 export { ClaudeCodeService } from './service';
 export * from './types';
+export * from './errors';
+export { extractJson, validateSchema } from './object';
+export type { ObjectRequest } from './object';
+export { IMAGE_TYPES, detectImageType, loadImage, parseImageDescription } from './image';
+export type { ImageDescription, ImageInput } from './image';
+export {
+  registerTruncationStrategy,
+  sectionsStrategy,
+  headTailStrategy,
+  tailStrategy,
+} from './truncate';
+export type { TruncationStrategy } from './truncate';
+export { codeTaskAction, codeTaskConfig } from './action';
+export type { CodeTaskConfig } from './action';
+export { DEFAULT_PERMISSION_PROFILES, KNOWN_TOOLS } from './profiles';
+export { claudeCodeStatusProvider, formatStatus } from './status';
+export type { StatusField } from './status';
+export type { JobFilter } from './jobs';
+export { ChatServer, chatMessages, resolveModel } from './server';
+export type { ChatBackend, ChatCompletionRequest, ChatMessage } from './server';
+export { normalizePrompt, promptHash } from './cassette';
+export { BunProcessRunner, FakeProcessRunner } from './runner';
+export type {
+  ProcessRunner,
+  RunningProcess,
+  RunnerConfig,
+  SpawnOptions,
+  FakeResponse,
+  FakeCall,
+  FakeHandler,
+} from './runner';
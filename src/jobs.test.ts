@@ -0,0 +1,211 @@
+/**
+ * Unit tests for background jobs
+ *
+ * Test cases:
+ * - Submitted job runs in the background, result persisted and reloaded
+ * - Failed results and thrown errors mark the job failed
+ * - Jobs left running are marked interrupted on load
+ * - cancelJob aborts the run; stop() stores running jobs as interrupted
+ * - Callbacks called once per finished job
+ * - Listing by status, old finished jobs pruned
+ * - MCP env and headers redacted in a store only the owner can read
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClaudeCodeCancelledError, ClaudeCodeTimeoutError } from './errors';
+import { JobManager } from './jobs';
+import type { JobRunner } from './jobs';
+import type { ClaudeInvokeResult, ClaudeJob } from './types';
+
+let dir: string;
+let storePath: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-code-jobs-test-'));
+  storePath = join(dir, 'store', 'jobs.json');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const HOUR = 3600000;
+const options = { cwd: '/repo' };
+
+function result(overrides: Partial<ClaudeInvokeResult> = {}): ClaudeInvokeResult {
+  return {
+    status: 'success',
+    output: 'found 3 endpoints',
+    exitCode: 0,
+    stderr: '',
+    duration: 5,
+    ...overrides,
+  };
+}
+
+/** Runner that resolves when released, or with 'cancelled' when aborted */
+function pending(): { run: JobRunner; release: () => void } {
+  let release = () => {};
+  const run: JobRunner = (signal) =>
+    new Promise((resolve) => {
+      release = () => resolve(result());
+      signal.addEventListener('abort', () => {
+        const error = new ClaudeCodeCancelledError(signal.reason);
+        resolve(result({ status: 'cancelled', error, output: '', exitCode: null }));
+      });
+    });
+  return { run, release: () => release() };
+}
+
+async function finished(manager: JobManager, id: string): Promise<ClaudeJob> {
+  for (let i = 0; i < 100; i++) {
+    const job = manager.get(id);
+    if (job && job.status !== 'running') return job;
+    await Bun.sleep(5);
+  }
+  throw new Error(`job ${id} did not finish`);
+}
+
+describe('JobManager', () => {
+  test('runs a job in the background and persists the result', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const { run, release } = pending();
+    const job = await manager.submit('find endpoints', options, run);
+    expect(job.status).toBe('running');
+    expect(manager.get(job.id)?.status).toBe('running');
+
+    release();
+    const done = await finished(manager, job.id);
+    expect(done).toMatchObject({ status: 'succeeded', result: { output: 'found 3 endpoints' } });
+    expect(done.finishedAt).toBeGreaterThanOrEqual(done.createdAt);
+    await manager.stop(); // waits for the store write
+
+    const reloaded = new JobManager(storePath, HOUR);
+    expect(await reloaded.load()).toEqual([]);
+    expect(reloaded.get(job.id)).toEqual(done);
+  });
+
+  test('marks failed results and thrown errors as failed', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const timeout = new ClaudeCodeTimeoutError(1000);
+    const failed = await manager.submit('a', options, async () =>
+      result({ status: 'timeout', error: timeout, exitCode: null })
+    );
+    const thrown = await manager.submit('b', options, async () => {
+      throw new Error('boom');
+    });
+
+    expect(await finished(manager, failed.id)).toMatchObject({
+      status: 'failed',
+      error: 'exceeded 1s',
+      result: { status: 'timeout' },
+    });
+    expect(await finished(manager, thrown.id)).toMatchObject({ status: 'failed', error: 'boom' });
+    await manager.stop();
+    expect(JSON.parse(await readFile(storePath, 'utf-8'))[failed.id].result.error).toBeUndefined();
+  });
+
+  test('marks jobs left running as interrupted on load', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const job = await manager.submit('a', options, pending().run);
+
+    // Simulates a crash: the store still says running
+    const notified: ClaudeJob[] = [];
+    const restarted = new JobManager(storePath, HOUR, (j) => void notified.push(j));
+    const interrupted = await restarted.load();
+    expect(interrupted.map((j) => j.id)).toEqual([job.id]);
+    expect(restarted.get(job.id)).toMatchObject({ status: 'interrupted' });
+    expect(notified.map((j) => j.status)).toEqual(['interrupted']);
+
+    const again = new JobManager(storePath, HOUR);
+    expect(await again.load()).toEqual([]);
+    expect(again.get(job.id)?.status).toBe('interrupted');
+  });
+
+  test('cancels a running job', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const job = await manager.submit('a', options, pending().run);
+
+    expect(await manager.cancel(job.id)).toBe(true);
+    expect(manager.get(job.id)).toMatchObject({ status: 'cancelled', error: 'cancelled' });
+    expect(await manager.cancel(job.id)).toBe(false);
+    expect(await manager.cancel('unknown')).toBe(false);
+  });
+
+  test('stop() stores running jobs as interrupted', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const job = await manager.submit('a', options, pending().run);
+    await manager.stop();
+
+    const reloaded = new JobManager(storePath, HOUR);
+    expect(await reloaded.load()).toEqual([]);
+    expect(reloaded.get(job.id)?.status).toBe('interrupted');
+  });
+
+  test('calls onComplete and onFinished once', async () => {
+    const events: string[] = [];
+    const manager = new JobManager(storePath, HOUR, (j) => {
+      events.push(`finished ${j.status}`);
+    });
+    const job = await manager.submit('a', options, async () => result(), (j) => {
+      events.push(`complete ${j.status}`);
+      throw new Error('callback errors are only logged');
+    });
+
+    await finished(manager, job.id);
+    await manager.stop(); // waits for the callbacks
+    expect(events).toEqual(['complete succeeded', 'finished succeeded']);
+  });
+
+  test('lists by status and prunes old finished jobs', async () => {
+    const old: ClaudeJob = {
+      id: 'old',
+      prompt: 'a',
+      options,
+      status: 'succeeded',
+      createdAt: Date.now() - 3 * HOUR,
+      finishedAt: Date.now() - 2 * HOUR,
+    };
+    const recent: ClaudeJob = { ...old, id: 'recent', status: 'failed', finishedAt: Date.now() };
+    await mkdir(join(dir, 'store'));
+    await writeFile(storePath, JSON.stringify({ old, recent }));
+
+    const manager = new JobManager(storePath, HOUR);
+    await manager.load();
+    expect(manager.size).toBe(1);
+
+    const running = await manager.submit('b', options, pending().run);
+    expect(manager.list().map((j) => j.id)).toEqual([running.id, 'recent']);
+    expect(manager.list({ status: 'failed' }).map((j) => j.id)).toEqual(['recent']);
+    expect(manager.list({ status: ['running', 'failed'], limit: 1 })).toHaveLength(1);
+    await manager.stop();
+  });
+
+  test('stores jobs without MCP secrets, readable by the owner only', async () => {
+    const manager = new JobManager(storePath, HOUR);
+    const mcpServers = {
+      tickets: { command: 'ticket-mcp', env: { TICKETS_TOKEN: 'secret-token' } },
+      docs: {
+        type: 'http' as const,
+        url: 'http://docs/mcp',
+        headers: { Authorization: 'Bearer x' },
+      },
+    };
+    const job = await manager.submit('a', { ...options, mcpServers }, async () => result());
+    await finished(manager, job.id);
+    await manager.stop();
+
+    expect(manager.get(job.id)?.options.mcpServers).toEqual(mcpServers);
+    const raw = await readFile(storePath, 'utf-8');
+    expect(raw).not.toContain('secret-token');
+    expect(raw).not.toContain('Bearer x');
+    expect(JSON.parse(raw)[job.id].options.mcpServers).toEqual({
+      tickets: { command: 'ticket-mcp', env: { TICKETS_TOKEN: '[redacted]' } },
+      docs: { type: 'http', url: 'http://docs/mcp', headers: { Authorization: '[redacted]' } },
+    });
+    expect((await stat(storePath)).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,235 @@
+import { logger } from '@elizaos/core';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { redactMcpServers } from './mcp';
+import type { ClaudeInvokeResult, ClaudeJob, ClaudeJobCallback, ClaudeJobStatus } from './types';
+
+export const DEFAULT_JOB_RETENTION = 7 * 24 * 3600000; // 1 week
+
+const INTERRUPTED = 'agent stopped while the job was running';
+
+/**
+ * Runs the job's work; the signal is aborted by cancel() and stop()
+ */
+export type JobRunner = (signal: AbortSignal) => Promise<ClaudeInvokeResult>;
+
+/**
+ * Filter for listJobs()
+ */
+export interface JobFilter {
+  status?: ClaudeJobStatus | ClaudeJobStatus[];
+  /** Return at most this many jobs (newest first) */
+  limit?: number;
+}
+
+/**
+ * Job as written to the store, without MCP secrets
+ */
+function storedJob(job: ClaudeJob): ClaudeJob {
+  const { mcpServers } = job.options;
+  if (!mcpServers) return job;
+  return { ...job, options: { ...job.options, mcpServers: redactMcpServers(mcpServers) } };
+}
+
+/**
+ * Background jobs with their state and results persisted as JSON, so callers
+ * can poll for results after an agent restart. Jobs still 'running' in the
+ * store at load() did not survive the restart and are marked 'interrupted'.
+ * Finished jobs are dropped after `retention` ms. MCP server env and headers
+ * are redacted in the store, which is readable by the agent's user only.
+ */
+export class JobManager {
+  private jobs = new Map<string, ClaudeJob>();
+  private running = new Map<string, { controller: AbortController; done: Promise<void> }>();
+  private saving: Promise<void> = Promise.resolve();
+  private stopping = false;
+
+  constructor(
+    private storePath: string,
+    private retention: number,
+    private onFinished?: ClaudeJobCallback
+  ) {}
+
+  /**
+   * Load persisted jobs, marking those left running as interrupted.
+   * Returns the interrupted jobs (onFinished is called for each).
+   */
+  async load(): Promise<ClaudeJob[]> {
+    let raw: Record<string, ClaudeJob>;
+    try {
+      raw = JSON.parse(await readFile(this.storePath, 'utf-8'));
+    } catch {
+      return []; // No store yet (or unreadable), start empty
+    }
+
+    const now = Date.now();
+    const interrupted: ClaudeJob[] = [];
+    for (const job of Object.values(raw)) {
+      if (job.status === 'running') {
+        job.status = 'interrupted';
+        job.error = INTERRUPTED;
+        job.finishedAt = now;
+        interrupted.push(job);
+      }
+      this.jobs.set(job.id, job);
+    }
+    this.prune();
+    await this.save();
+    logger.debug(`[claude-code] loaded ${this.jobs.size} jobs from ${this.storePath}`);
+
+    if (interrupted.length > 0) {
+      logger.warn(`[claude-code] ${interrupted.length} jobs were interrupted by a restart`);
+    }
+    for (const job of interrupted) {
+      await this.notify(job);
+    }
+    return interrupted;
+  }
+
+  /**
+   * Store a new running job and start it in the background
+   */
+  async submit(
+    prompt: string,
+    options: ClaudeJob['options'],
+    run: JobRunner,
+    onComplete?: ClaudeJobCallback
+  ): Promise<ClaudeJob> {
+    this.prune();
+    const job: ClaudeJob = {
+      id: randomUUID(),
+      prompt,
+      options,
+      status: 'running',
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+    await this.save();
+
+    const controller = new AbortController();
+    const done = this.execute(job, run, controller.signal, onComplete).finally(() =>
+      this.running.delete(job.id)
+    );
+    this.running.set(job.id, { controller, done });
+    return { ...job };
+  }
+
+  get(id: string): ClaudeJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  /**
+   * Jobs newest first, optionally filtered by status
+   */
+  list(filter: JobFilter = {}): ClaudeJob[] {
+    const statuses = filter.status === undefined ? null : [filter.status].flat();
+    const jobs = [...this.jobs.values()]
+      .filter((job) => !statuses || statuses.includes(job.status))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((job) => ({ ...job }));
+    return filter.limit === undefined ? jobs : jobs.slice(0, filter.limit);
+  }
+
+  /**
+   * Cancel a running job and wait until it has stopped.
+   * Returns false if the job is unknown or already finished.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const entry = this.running.get(id);
+    if (!entry) return false;
+    entry.controller.abort();
+    await entry.done;
+    return true;
+  }
+
+  /**
+   * Stop all running jobs; they are stored as interrupted
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    const entries = [...this.running.values()];
+    for (const { controller } of entries) {
+      controller.abort();
+    }
+    await Promise.all(entries.map((entry) => entry.done));
+    await this.saving;
+  }
+
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  private async execute(
+    job: ClaudeJob,
+    run: JobRunner,
+    signal: AbortSignal,
+    onComplete?: ClaudeJobCallback
+  ): Promise<void> {
+    try {
+      const { error, ...result } = await run(signal);
+      job.result = result;
+      if (result.status === 'success') {
+        job.status = 'succeeded';
+      } else {
+        job.status = result.status === 'cancelled' ? 'cancelled' : 'failed';
+        job.error = error?.message ?? (result.stderr || result.status);
+      }
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+    if (this.stopping && job.status === 'cancelled') {
+      job.status = 'interrupted';
+      job.error = INTERRUPTED;
+    }
+    job.finishedAt = Date.now();
+    logger.debug(`[claude-code] job ${job.id} ${job.status}`);
+
+    await this.save();
+    await this.notify(job, onComplete);
+  }
+
+  private async notify(job: ClaudeJob, onComplete?: ClaudeJobCallback): Promise<void> {
+    for (const callback of [onComplete, this.onFinished]) {
+      try {
+        await callback?.({ ...job });
+      } catch (error) {
+        logger.warn(`[claude-code] job ${job.id} callback failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Drop finished jobs older than the retention period
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.retention;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt !== undefined && job.finishedAt < cutoff) this.jobs.delete(id);
+    }
+  }
+
+  /**
+   * Write the store, one write at a time; the file is replaced atomically so
+   * a crash mid-write keeps the previous state
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const tmpPath = `${this.storePath}.tmp`;
+      try {
+        await mkdir(dirname(this.storePath), { recursive: true });
+        const stored = [...this.jobs].map(([id, job]) => [id, storedJob(job)]);
+        await writeFile(tmpPath, JSON.stringify(Object.fromEntries(stored), null, 2), {
+          mode: 0o600,
+        });
+        await rename(tmpPath, this.storePath);
+      } catch (error) {
+        logger.warn(`[claude-code] failed to save jobs to ${this.storePath}: ${error}`);
+      }
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for MCP server configuration
+ *
+ * Test cases:
+ * - Server name and required field validation
+ * - mcp__server__tool names checked against configured servers
+ * - Temporary config file contents and cleanup
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync } from 'node:fs';
+import { validateMcpServers, validateMcpToolNames, writeMcpConfig } from './mcp';
+import { ClaudeCodeConfigError } from './errors';
+import type { McpServerConfig } from './types';
+
+const servers: Record<string, McpServerConfig> = {
+  tickets: { command: 'ticket-mcp' },
+  docs: { type: 'http', url: 'http://localhost:9000/mcp' },
+};
+
+describe('validateMcpServers', () => {
+  test('accepts stdio and remote servers', () => {
+    expect(() => validateMcpServers(servers)).not.toThrow();
+  });
+
+  test('rejects bad names and missing fields', () => {
+    const bad = [
+      { 'ticket db': { command: 'x' } },
+      { tickets: { args: ['x'] } },
+      { docs: { type: 'sse' } },
+      { docs: { type: 'ws', url: 'ws://x' } },
+    ] as unknown as Record<string, McpServerConfig>[];
+    for (const config of bad) {
+      expect(() => validateMcpServers(config)).toThrow(ClaudeCodeConfigError);
+    }
+  });
+});
+
+describe('validateMcpToolNames', () => {
+  test('accepts tools of configured servers', () => {
+    expect(() =>
+      validateMcpToolNames(servers, ['Read', 'mcp__tickets__search'], 'mcp__docs')
+    ).not.toThrow();
+  });
+
+  test('rejects unknown servers and malformed names', () => {
+    expect(() => validateMcpToolNames(servers, ['mcp__wiki__search'])).toThrow(
+      "unknown MCP server 'wiki'"
+    );
+    expect(() => validateMcpToolNames(servers, undefined, 'Bash,mcp__')).toThrow(
+      ClaudeCodeConfigError
+    );
+  });
+});
+
+describe('writeMcpConfig', () => {
+  test('writes a strict config and removes it', async () => {
+    const { args, cleanup } = await writeMcpConfig(servers);
+    expect(args[0]).toBe('--mcp-config');
+    expect(args[2]).toBe('--strict-mcp-config');
+    expect(JSON.parse(readFileSync(args[1], 'utf8'))).toEqual({ mcpServers: servers });
+
+    await cleanup();
+    expect(existsSync(args[1])).toBe(false);
+  });
+});
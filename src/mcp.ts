@@ -0,0 +1,103 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ClaudeCodeConfigError } from './errors';
+import type { McpServerConfig } from './types';
+
+const REDACTED = '[redacted]';
+const SERVER_NAME = /^[A-Za-z0-9_-]+$/;
+/** mcp__<server> (all tools) or mcp__<server>__<tool> */
+const MCP_TOOL = /^mcp__([A-Za-z0-9_-]+?)(?:__([A-Za-z0-9_-]+))?$/;
+
+/**
+ * Check server names and required fields, throwing ClaudeCodeConfigError
+ */
+export function validateMcpServers(servers: Record<string, McpServerConfig>): void {
+  for (const [name, server] of Object.entries(servers)) {
+    if (!SERVER_NAME.test(name)) {
+      throw new ClaudeCodeConfigError(`invalid MCP server name '${name}'`);
+    }
+    if (!server || typeof server !== 'object') {
+      throw new ClaudeCodeConfigError(`MCP server '${name}' must be an object`);
+    }
+    if (server.type === 'sse' || server.type === 'http') {
+      if (typeof server.url !== 'string' || !server.url) {
+        throw new ClaudeCodeConfigError(`MCP server '${name}' needs a url`);
+      }
+    } else if (server.type !== undefined && server.type !== 'stdio') {
+      throw new ClaudeCodeConfigError(
+        `MCP server '${name}' has unknown type '${(server as { type: unknown }).type}'`
+      );
+    } else if (typeof server.command !== 'string' || !server.command) {
+      throw new ClaudeCodeConfigError(`MCP server '${name}' needs a command`);
+    }
+  }
+}
+
+function toolList(tools?: string[] | string): string[] {
+  if (!tools) return [];
+  const list = Array.isArray(tools) ? tools : tools.split(',');
+  return list.map((t) => t.trim()).filter(Boolean);
+}
+
+/**
+ * Check that `mcp__server__tool` entries in tool lists name a configured server
+ */
+export function validateMcpToolNames(
+  servers: Record<string, McpServerConfig>,
+  ...toolLists: (string[] | string | undefined)[]
+): void {
+  for (const tool of toolLists.flatMap(toolList)) {
+    if (!tool.startsWith('mcp__')) continue;
+    const match = tool.match(MCP_TOOL);
+    if (!match) {
+      throw new ClaudeCodeConfigError(
+        `invalid MCP tool name '${tool}' (expected mcp__<server>__<tool>)`
+      );
+    }
+    if (!(match[1] in servers)) {
+      throw new ClaudeCodeConfigError(`tool '${tool}' refers to unknown MCP server '${match[1]}'`);
+    }
+  }
+}
+
+/**
+ * Copy of servers with `env` and `headers` values (API tokens, auth headers)
+ * replaced, for configs that are stored rather than passed to the CLI
+ */
+export function redactMcpServers(
+  servers: Record<string, McpServerConfig>
+): Record<string, McpServerConfig> {
+  const redact = (values: Record<string, string>) =>
+    Object.fromEntries(Object.keys(values).map((key) => [key, REDACTED]));
+  return Object.fromEntries(
+    Object.entries(servers).map(([name, server]) => {
+      if ('headers' in server && server.headers) {
+        return [name, { ...server, headers: redact(server.headers) }];
+      }
+      if ('env' in server && server.env) {
+        return [name, { ...server, env: redact(server.env) }];
+      }
+      return [name, server];
+    })
+  );
+}
+
+/**
+ * Write servers to a temporary `--mcp-config` file outside the workspace.
+ * Returns the CLI args and a cleanup function removing the file.
+ */
+export async function writeMcpConfig(
+  servers: Record<string, McpServerConfig>
+): Promise<{ args: string[]; cleanup: () => Promise<void> }> {
+  const dir = await mkdtemp(join(process.env.TMPDIR || tmpdir(), 'claude-mcp-'));
+  const path = join(dir, `mcp-${randomUUID()}.json`);
+  await writeFile(path, JSON.stringify({ mcpServers: servers }, null, 2), { mode: 0o600 });
+  return {
+    // Strict mode: ignore user and project level MCP servers
+    args: ['--mcp-config', path, '--strict-mcp-config'],
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
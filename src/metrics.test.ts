@@ -0,0 +1,116 @@
+/**
+ * Unit tests for invocation metrics
+ *
+ * Test cases:
+ * - Counts by model and outcome, timeout/auth/limit totals
+ * - Cumulative latency and queue wait histograms
+ * - Token usage and cost accumulation
+ * - Prometheus text rendering
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { MetricsRecorder, renderPrometheus } from './metrics';
+import type { ClaudeInvokeResult, QueueDepth } from './types';
+
+const queue: QueueDepth = {
+  running: 1,
+  queued: 2,
+  byPriority: { interactive: 0, normal: 2, background: 0 },
+  byModel: {},
+};
+
+function result(overrides: Partial<ClaudeInvokeResult>): ClaudeInvokeResult {
+  return { status: 'success', output: '', exitCode: 0, stderr: '', duration: 1500, ...overrides };
+}
+
+describe('MetricsRecorder', () => {
+  test('counts outcomes per model', () => {
+    const metrics = new MetricsRecorder();
+    metrics.record('sonnet', result({}), 0);
+    metrics.record('sonnet', result({ status: 'timeout', duration: 120000 }), 0);
+    metrics.record('haiku', result({ status: 'auth_error' }), 0);
+    metrics.record('haiku', result({ status: 'usage_limit' }), 0);
+
+    const stats = metrics.getStats(queue);
+    expect(stats.invocations).toEqual({
+      sonnet: { success: 1, timeout: 1 },
+      haiku: { auth_error: 1, usage_limit: 1 },
+    });
+    expect(stats.total).toBe(4);
+    expect(stats.timeouts).toBe(1);
+    expect(stats.authFailures).toBe(1);
+    expect(stats.usageLimits).toBe(1);
+    expect(stats.queue).toBe(queue);
+  });
+
+  test('builds cumulative histograms', () => {
+    const metrics = new MetricsRecorder();
+    metrics.record('sonnet', result({ duration: 800 }), 50);
+    metrics.record('sonnet', result({ duration: 3000 }), 2000);
+    metrics.record('opus', result({ status: 'queue_timeout', duration: 0 }), 300000);
+
+    const stats = metrics.getStats(queue);
+    const latency = stats.latency.sonnet;
+    expect(latency.count).toBe(2);
+    expect(latency.sum).toBe(3800);
+    expect(latency.counts.slice(0, 4)).toEqual([0, 1, 1, 2]);
+    // Queue timeouts never ran
+    expect(stats.latency.opus).toBeUndefined();
+    expect(stats.queueWait.count).toBe(3);
+    expect(stats.queueWait.counts[stats.queueWait.counts.length - 1]).toBe(3);
+  });
+
+  test('accumulates tokens and cost', () => {
+    const metrics = new MetricsRecorder();
+    const usage = {
+      inputTokens: 10,
+      outputTokens: 5,
+      cacheCreationInputTokens: 1,
+      cacheReadInputTokens: 2,
+    };
+    metrics.record('sonnet', result({ usage, totalCostUsd: 0.25 }));
+    metrics.record('sonnet', result({ usage, totalCostUsd: 0.5 }));
+
+    const stats = metrics.getStats(queue);
+    expect(stats.tokens.sonnet).toEqual({
+      inputTokens: 20,
+      outputTokens: 10,
+      cacheCreationInputTokens: 2,
+      cacheReadInputTokens: 4,
+    });
+    expect(stats.costUsd).toBe(0.75);
+  });
+
+  test('snapshots are not live', () => {
+    const metrics = new MetricsRecorder();
+    metrics.record('sonnet', result({}));
+    const stats = metrics.getStats(queue);
+    metrics.record('sonnet', result({}));
+    expect(stats.invocations.sonnet.success).toBe(1);
+    expect(stats.latency.sonnet.count).toBe(1);
+
+    metrics.reset();
+    expect(metrics.getStats(queue).total).toBe(0);
+  });
+});
+
+describe('renderPrometheus', () => {
+  test('renders counters, histograms and gauges', () => {
+    const metrics = new MetricsRecorder();
+    metrics.record('sonnet', result({ duration: 800 }), 50);
+    metrics.record('sonnet', result({ status: 'timeout', duration: 120000 }), 0);
+
+    const text = renderPrometheus(metrics.getStats(queue));
+    expect(text).toContain('# TYPE claude_code_invocations_total counter');
+    expect(text).toContain('claude_code_invocations_total{model="sonnet",status="success"} 1');
+    expect(text).toContain('claude_code_timeouts_total 1');
+    expect(text).toContain('claude_code_invocation_duration_seconds_bucket{model="sonnet",le="1"} 1');
+    expect(text).toContain(
+      'claude_code_invocation_duration_seconds_bucket{model="sonnet",le="+Inf"} 2'
+    );
+    expect(text).toContain('claude_code_invocation_duration_seconds_sum{model="sonnet"} 120.8');
+    expect(text).toContain('claude_code_queue_wait_seconds_count 2');
+    expect(text).toContain('claude_code_queue_waiting 2');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
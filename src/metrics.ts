@@ -0,0 +1,190 @@
+import type {
+  ClaudeCodeStats,
+  ClaudeInvokeResult,
+  ClaudeModel,
+  ClaudeUsage,
+  LatencyHistogram,
+  QueueDepth,
+} from './types';
+
+/** Latency buckets in ms (0.5s to 10min) */
+const LATENCY_BUCKETS = [500, 1000, 2000, 5000, 10000, 30000, 60000, 120000, 300000, 600000];
+/** Queue wait buckets in ms (10ms to 5min) */
+const QUEUE_WAIT_BUCKETS = [10, 100, 1000, 5000, 10000, 30000, 60000, 300000];
+
+function emptyHistogram(buckets: number[]): LatencyHistogram {
+  return { buckets, counts: buckets.map(() => 0), sum: 0, count: 0 };
+}
+
+function observe(histogram: LatencyHistogram, value: number): void {
+  histogram.buckets.forEach((le, i) => {
+    if (value <= le) histogram.counts[i]++;
+  });
+  histogram.sum += value;
+  histogram.count++;
+}
+
+function cloneHistogram(histogram: LatencyHistogram): LatencyHistogram {
+  return { ...histogram, counts: [...histogram.counts] };
+}
+
+/**
+ * Records per-invocation counts, latencies, queue wait and token usage
+ */
+export class MetricsRecorder {
+  private since = Date.now();
+  private invocations: ClaudeCodeStats['invocations'] = {};
+  private latency: Record<string, LatencyHistogram> = {};
+  private queueWait = emptyHistogram(QUEUE_WAIT_BUCKETS);
+  private tokens: Record<string, ClaudeUsage> = {};
+  private costUsd = 0;
+
+  /**
+   * Record one finished CLI invocation (or one that never started)
+   */
+  record(model: ClaudeModel, result: ClaudeInvokeResult, queueWait?: number): void {
+    const byStatus = (this.invocations[model] ??= {});
+    byStatus[result.status] = (byStatus[result.status] ?? 0) + 1;
+
+    // Calls that timed out in the queue never ran
+    if (result.status !== 'queue_timeout') {
+      observe((this.latency[model] ??= emptyHistogram(LATENCY_BUCKETS)), result.duration);
+    }
+    if (queueWait !== undefined) {
+      observe(this.queueWait, queueWait);
+    }
+
+    if (result.usage) {
+      const tokens = (this.tokens[model] ??= {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+      });
+      tokens.inputTokens += result.usage.inputTokens;
+      tokens.outputTokens += result.usage.outputTokens;
+      tokens.cacheCreationInputTokens += result.usage.cacheCreationInputTokens;
+      tokens.cacheReadInputTokens += result.usage.cacheReadInputTokens;
+    }
+    if (result.totalCostUsd) {
+      this.costUsd += result.totalCostUsd;
+    }
+  }
+
+  /**
+   * Snapshot of everything recorded so far
+   */
+  getStats(queue: QueueDepth): ClaudeCodeStats {
+    const count = (status: keyof ClaudeCodeStats['invocations'][string]) =>
+      Object.values(this.invocations).reduce((n, byStatus) => n + (byStatus[status] ?? 0), 0);
+    const total = Object.values(this.invocations).reduce(
+      (n, byStatus) => n + Object.values(byStatus).reduce((a, b) => a + (b ?? 0), 0),
+      0
+    );
+
+    return {
+      since: this.since,
+      invocations: Object.fromEntries(
+        Object.entries(this.invocations).map(([model, byStatus]) => [model, { ...byStatus }])
+      ),
+      total,
+      timeouts: count('timeout'),
+      authFailures: count('auth_error'),
+      usageLimits: count('usage_limit'),
+      latency: Object.fromEntries(
+        Object.entries(this.latency).map(([model, h]) => [model, cloneHistogram(h)])
+      ),
+      queueWait: cloneHistogram(this.queueWait),
+      tokens: Object.fromEntries(
+        Object.entries(this.tokens).map(([model, usage]) => [model, { ...usage }])
+      ),
+      costUsd: this.costUsd,
+      queue,
+    };
+  }
+
+  reset(): void {
+    this.since = Date.now();
+    this.invocations = {};
+    this.latency = {};
+    this.queueWait = emptyHistogram(QUEUE_WAIT_BUCKETS);
+    this.tokens = {};
+    this.costUsd = 0;
+  }
+}
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(
+    ([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function histogramLines(
+  name: string,
+  histogram: LatencyHistogram,
+  extra: Record<string, string> = {}
+): string[] {
+  const lines = histogram.buckets.map(
+    (le, i) => `${name}_bucket${labels({ ...extra, le: String(le / 1000) })} ${histogram.counts[i]}`
+  );
+  lines.push(`${name}_bucket${labels({ ...extra, le: '+Inf' })} ${histogram.count}`);
+  lines.push(`${name}_sum${labels(extra)} ${histogram.sum / 1000}`);
+  lines.push(`${name}_count${labels(extra)} ${histogram.count}`);
+  return lines;
+}
+
+/**
+ * Render stats in the Prometheus text exposition format (metric prefix `claude_code_`)
+ */
+export function renderPrometheus(stats: ClaudeCodeStats): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  metric('claude_code_invocations_total', 'counter', 'CLI invocations by model and outcome');
+  for (const [model, byStatus] of Object.entries(stats.invocations)) {
+    for (const [status, n] of Object.entries(byStatus)) {
+      lines.push(`claude_code_invocations_total${labels({ model, status })} ${n}`);
+    }
+  }
+
+  metric('claude_code_timeouts_total', 'counter', 'Invocations killed after the timeout');
+  lines.push(`claude_code_timeouts_total ${stats.timeouts}`);
+  metric('claude_code_auth_failures_total', 'counter', 'Invocations rejected for auth');
+  lines.push(`claude_code_auth_failures_total ${stats.authFailures}`);
+  metric('claude_code_usage_limits_total', 'counter', 'Usage limit, rate limit or overload');
+  lines.push(`claude_code_usage_limits_total ${stats.usageLimits}`);
+
+  metric('claude_code_invocation_duration_seconds', 'histogram', 'CLI run time by model');
+  for (const [model, histogram] of Object.entries(stats.latency)) {
+    lines.push(...histogramLines('claude_code_invocation_duration_seconds', histogram, { model }));
+  }
+
+  metric('claude_code_queue_wait_seconds', 'histogram', 'Time waiting for a queue slot');
+  lines.push(...histogramLines('claude_code_queue_wait_seconds', stats.queueWait));
+
+  metric('claude_code_tokens_total', 'counter', 'Tokens by model and type');
+  for (const [model, usage] of Object.entries(stats.tokens)) {
+    const types: Record<string, number> = {
+      input: usage.inputTokens,
+      output: usage.outputTokens,
+      cache_creation: usage.cacheCreationInputTokens,
+      cache_read: usage.cacheReadInputTokens,
+    };
+    for (const [type, n] of Object.entries(types)) {
+      lines.push(`claude_code_tokens_total${labels({ model, type })} ${n}`);
+    }
+  }
+
+  metric('claude_code_cost_usd_total', 'counter', 'Equivalent API cost reported by the CLI');
+  lines.push(`claude_code_cost_usd_total ${stats.costUsd}`);
+
+  metric('claude_code_queue_running', 'gauge', 'CLI processes currently running');
+  lines.push(`claude_code_queue_running ${stats.queue.running}`);
+  metric('claude_code_queue_waiting', 'gauge', 'Calls waiting for a slot');
+  lines.push(`claude_code_queue_waiting ${stats.queue.queued}`);
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for JSON extraction, schema validation and repair
+ *
+ * Test cases:
+ * - Bare JSON, fenced blocks and JSON wrapped in prose
+ * - Brackets inside strings
+ * - Schema type, required, enum, items, additionalProperties
+ * - One repair prompt on invalid output, error after second failure
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { extractJson, generateObjectWith, validateSchema } from './object';
+import { ClaudeCodeObjectError } from './errors';
+
+describe('extractJson', () => {
+  test('parses bare JSON', () => {
+    expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJson(' [1,2] ')).toEqual([1, 2]);
+    expect(extractJson('"yes"')).toBe('yes');
+  });
+
+  test('parses fenced block', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```\nDone.')).toEqual({ a: 1 });
+    expect(extractJson('```\n[true]\n```')).toEqual([true]);
+  });
+
+  test('parses JSON wrapped in prose or tags', () => {
+    expect(extractJson('Sure! {"name": "x", "tags": ["a"]} Hope that helps')).toEqual({
+      name: 'x',
+      tags: ['a'],
+    });
+    expect(extractJson('<response>{"a": {"b": 2}}</response>')).toEqual({ a: { b: 2 } });
+  });
+
+  test('ignores brackets inside strings', () => {
+    expect(extractJson('text {"a": "}{]"} more')).toEqual({ a: '}{]' });
+  });
+
+  test('returns undefined when nothing parses', () => {
+    expect(extractJson('')).toBeUndefined();
+    expect(extractJson('no json here')).toBeUndefined();
+    expect(extractJson('{broken')).toBeUndefined();
+  });
+});
+
+describe('validateSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      age: { type: 'number' },
+      mood: { type: 'string', enum: ['happy', 'sad'] },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['name', 'age'],
+  };
+
+  test('accepts valid object', () => {
+    expect(validateSchema({ name: 'a', age: 3, mood: 'happy', tags: ['x'] }, schema)).toEqual([]);
+  });
+
+  test('reports missing required and wrong types', () => {
+    expect(validateSchema({ age: 'old' }, schema)).toEqual([
+      '$.name: required',
+      '$.age: expected number, got string',
+    ]);
+  });
+
+  test('reports enum and item errors', () => {
+    expect(validateSchema({ name: 'a', age: 1, mood: 'meh', tags: [1] }, schema)).toEqual([
+      '$.mood: must be one of ["happy","sad"]',
+      '$.tags[0]: expected string, got integer',
+    ]);
+  });
+
+  test('rejects additional properties when disallowed', () => {
+    const strict = {
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      additionalProperties: false,
+    };
+    expect(validateSchema({ a: 'x', b: 1 }, strict)).toEqual(['$.b: not allowed']);
+  });
+
+  test('integer satisfies number', () => {
+    expect(validateSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+  });
+});
+
+describe('generateObjectWith', () => {
+  test('returns valid output without repair', async () => {
+    const prompts: string[] = [];
+    const value = await generateObjectWith({ prompt: 'make it' }, 'haiku', async (p) => {
+      prompts.push(p);
+      return '{"ok": true}';
+    });
+    expect(value).toEqual({ ok: true });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('Respond with ONLY a JSON object');
+  });
+
+  test('sends one repair prompt with errors', async () => {
+    const prompts: string[] = [];
+    const outputs = ['not json', '{"name": "fixed"}'];
+    const value = await generateObjectWith(
+      { prompt: 'make it', schema: { type: 'object', required: ['name'] } },
+      'haiku',
+      async (p) => {
+        prompts.push(p);
+        return outputs.shift()!;
+      }
+    );
+    expect(value).toEqual({ name: 'fixed' });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('response is not valid JSON');
+    expect(prompts[1]).toContain('not json');
+  });
+
+  test('throws ClaudeCodeObjectError after failed repair', async () => {
+    const run = async () => '{"other": 1}';
+    const promise = generateObjectWith(
+      { prompt: 'make it', schema: { type: 'object', required: ['name'] } },
+      'haiku',
+      run
+    );
+    await expect(promise).rejects.toBeInstanceOf(ClaudeCodeObjectError);
+  });
+
+  test('enum output expects one of the values', async () => {
+    const value = await generateObjectWith(
+      { prompt: 'pick', output: 'enum', enumValues: ['a', 'b'] },
+      'haiku',
+      async () => '"b"'
+    );
+    expect(value).toBe('b');
+  });
+});
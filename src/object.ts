@@ -0,0 +1,197 @@
+import { logger } from '@elizaos/core';
+import type { JSONSchema } from '@elizaos/core';
+
+import { ClaudeCodeObjectError } from './errors';
+import type { ClaudeModel } from './types';
+
+/**
+ * What the object handlers should produce
+ */
+export interface ObjectRequest {
+  prompt: string;
+  /** JSON schema the result must satisfy */
+  schema?: JSONSchema;
+  /** Expected shape (defaults to 'object') */
+  output?: 'object' | 'array' | 'enum';
+  /** Allowed values for output 'enum' */
+  enumValues?: string[];
+}
+
+/**
+ * Pull a JSON value out of model output: bare JSON, a fenced ```json block,
+ * or the first balanced {...} / [...] span inside surrounding prose.
+ * Returns undefined if nothing parses.
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  const candidates = [trimmed];
+  for (const match of trimmed.matchAll(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/g)) {
+    candidates.push(match[1].trim());
+  }
+  const balanced = findBalanced(trimmed);
+  if (balanced) candidates.push(balanced);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the first balanced JSON object or array, skipping brackets in strings
+ */
+function findBalanced(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+    else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a JSON schema subset (type, properties, required,
+ * items, enum, additionalProperties: false). Returns a list of errors.
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type];
+
+  if (schema.type) {
+    const matches = types.some((t) => t === actual || (t === 'number' && actual === 'integer'));
+    if (!matches) {
+      errors.push(`${path}: expected ${types.join('|')}, got ${actual}`);
+      return errors;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => v === value)) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (actual === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, sub] of Object.entries(schema.properties ?? {})) {
+      if (key in obj) {
+        errors.push(...validateSchema(obj[key], sub as JSONSchema, `${path}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(obj)) {
+        if (!schema.properties || !(key in schema.properties)) {
+          errors.push(`${path}.${key}: not allowed`);
+        }
+      }
+    }
+  }
+
+  if (actual === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validateSchema(item, schema.items as JSONSchema, `${path}[${i}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Effective schema for a request (output/enumValues folded in)
+ */
+function effectiveSchema(request: ObjectRequest): JSONSchema {
+  if (request.schema) return request.schema;
+  if (request.output === 'array') return { type: 'array' };
+  if (request.output === 'enum') return { type: 'string', enum: request.enumValues ?? [] };
+  return { type: 'object' };
+}
+
+function buildPrompt(request: ObjectRequest, schema: JSONSchema): string {
+  const shape =
+    request.output === 'enum'
+      ? `a JSON string, one of ${JSON.stringify(request.enumValues ?? [])}`
+      : `a JSON ${request.output === 'array' ? 'array' : 'object'}`;
+  const schemaText = request.schema
+    ? `\n\nIt must match this JSON schema:\n${JSON.stringify(schema, null, 2)}`
+    : '';
+  return `${request.prompt}
+
+Respond with ONLY ${shape}.${schemaText}
+Do not add explanations, markdown, code fences or XML tags.`;
+}
+
+function buildRepairPrompt(
+  request: ObjectRequest,
+  schema: JSONSchema,
+  output: string,
+  problems: string[]
+): string {
+  return `${buildPrompt(request, schema)}
+
+Your previous response was not valid:
+${problems.map((p) => `- ${p}`).join('\n')}
+
+Previous response:
+${output.slice(0, 4000)}
+
+Return the corrected JSON only.`;
+}
+
+/**
+ * Generate a JSON value with `run` (prompt -> raw model text), validating it
+ * against the request schema. On parse or validation failure one repair
+ * prompt is sent with the errors; a second failure throws ClaudeCodeObjectError.
+ */
+export async function generateObjectWith(
+  request: ObjectRequest,
+  model: ClaudeModel,
+  run: (prompt: string) => Promise<string>
+): Promise<unknown> {
+  const schema = effectiveSchema(request);
+
+  const attempt = (output: string): { value?: unknown; problems: string[] } => {
+    const value = extractJson(output);
+    if (value === undefined) return { problems: ['response is not valid JSON'] };
+    return { value, problems: validateSchema(value, schema) };
+  };
+
+  const first = await run(buildPrompt(request, schema));
+  const parsed = attempt(first);
+  if (parsed.problems.length === 0) return parsed.value;
+
+  logger.warn(`[claude-code] invalid object output, sending repair prompt: ${parsed.problems[0]}`);
+  const second = await run(buildRepairPrompt(request, schema, first, parsed.problems));
+  const repaired = attempt(second);
+  if (repaired.problems.length === 0) return repaired.value;
+
+  throw new ClaudeCodeObjectError(second, repaired.problems, { model });
+}
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for stream-json output parsing
+ *
+ * Test cases:
+ * - Text deltas from partial messages
+ * - Full assistant messages (text skipped after deltas)
+ * - tool_use and tool_result events
+ * - Final result line
+ * - Invalid and unknown lines are ignored
+ * - Line splitting across chunk boundaries
+ * - JSON result envelope (usage, cost, session)
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { StreamJsonParser, parseJsonOutput, readLines } from './output';
+
+const line = (obj: unknown) => JSON.stringify(obj);
+
+describe('StreamJsonParser', () => {
+  test('emits text deltas', () => {
+    const parser = new StreamJsonParser();
+    const events = parser.parse(
+      line({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+      })
+    );
+    expect(events).toEqual([{ type: 'text', text: 'Hel' }]);
+    expect(parser.text).toBe('Hel');
+  });
+
+  test('emits text from assistant message when no deltas were seen', () => {
+    const parser = new StreamJsonParser();
+    const events = parser.parse(
+      line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Hello' }] } })
+    );
+    expect(events).toEqual([{ type: 'text', text: 'Hello' }]);
+  });
+
+  test('skips assistant text already streamed as deltas', () => {
+    const parser = new StreamJsonParser();
+    parser.parse(
+      line({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello' } },
+      })
+    );
+    const events = parser.parse(
+      line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Hello' }] } })
+    );
+    expect(events).toEqual([]);
+    expect(parser.text).toBe('Hello');
+
+    // Next message without deltas is emitted again
+    const next = parser.parse(
+      line({ type: 'assistant', message: { content: [{ type: 'text', text: ' world' }] } })
+    );
+    expect(next).toEqual([{ type: 'text', text: ' world' }]);
+  });
+
+  test('emits tool_use and tool_result', () => {
+    const parser = new StreamJsonParser();
+    const use = parser.parse(
+      line({
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } }],
+        },
+      })
+    );
+    expect(use).toEqual([
+      { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } },
+    ]);
+
+    const result = parser.parse(
+      line({
+        type: 'user',
+        message: {
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              content: [{ type: 'text', text: 'file body' }],
+            },
+          ],
+        },
+      })
+    );
+    expect(result).toEqual([
+      { type: 'tool_result', toolUseId: 'toolu_1', content: 'file body', isError: false },
+    ]);
+  });
+
+  test('captures final result', () => {
+    const parser = new StreamJsonParser();
+    const events = parser.parse(
+      line({ type: 'result', subtype: 'success', is_error: false, result: 'done' })
+    );
+    expect(events).toEqual([]);
+    expect(parser.envelope?.result).toBe('done');
+    expect(parser.envelope?.metadata.isError).toBe(false);
+  });
+
+  test('ignores invalid and unknown lines', () => {
+    const parser = new StreamJsonParser();
+    expect(parser.parse('')).toEqual([]);
+    expect(parser.parse('not json')).toEqual([]);
+    expect(parser.parse(line({ type: 'system', subtype: 'init' }))).toEqual([]);
+  });
+});
+
+describe('readLines', () => {
+  test('splits lines across chunk boundaries', async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"a":1}\n{"b"'));
+        controller.enqueue(encoder.encode(':2}\n{"c":3}'));
+        controller.close();
+      },
+    });
+
+    const lines: string[] = [];
+    for await (const l of readLines(stream)) lines.push(l);
+    expect(lines).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+});
+
+describe('parseJsonOutput', () => {
+  test('parses result envelope', () => {
+    const envelope = parseJsonOutput(
+      line({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        duration_ms: 1234,
+        num_turns: 2,
+        result: 'Hello',
+        session_id: 'abc-123',
+        total_cost_usd: 0.0123,
+        usage: {
+          input_tokens: 10,
+          output_tokens: 20,
+          cache_creation_input_tokens: 30,
+          cache_read_input_tokens: 40,
+        },
+      })
+    );
+    expect(envelope).toEqual({
+      result: 'Hello',
+      metadata: {
+        sessionId: 'abc-123',
+        numTurns: 2,
+        usage: {
+          inputTokens: 10,
+          outputTokens: 20,
+          cacheCreationInputTokens: 30,
+          cacheReadInputTokens: 40,
+        },
+        totalCostUsd: 0.0123,
+        isError: false,
+        subtype: 'success',
+      },
+    });
+  });
+
+  test('defaults missing usage fields to zero', () => {
+    const envelope = parseJsonOutput(line({ type: 'result', result: 'x', usage: {} }));
+    expect(envelope?.metadata.usage).toEqual({
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+    });
+  });
+
+  test('returns null for non-envelope output', () => {
+    expect(parseJsonOutput('plain text')).toBeNull();
+    expect(parseJsonOutput(line({ type: 'assistant' }))).toBeNull();
+    expect(parseJsonOutput('')).toBeNull();
+  });
+});
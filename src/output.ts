@@ -0,0 +1,203 @@
+import type {
+  ClaudeMessage,
+  ClaudeResultMetadata,
+  ClaudeStreamEvent,
+  ClaudeUsage,
+} from './types';
+
+/**
+ * Result envelope parsed from `--output-format json` (or the final stream-json line)
+ */
+export interface ResultEnvelope {
+  /** Final assistant text */
+  result: string;
+  metadata: ClaudeResultMetadata;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Content blocks of a stream-json message (`message.content`), objects only
+ */
+function contentBlocks(msg: JsonObject): JsonObject[] {
+  const content = isObject(msg.message) ? msg.message.content : undefined;
+  return Array.isArray(content) ? content.filter(isObject) : [];
+}
+
+function parseUsage(raw: unknown): ClaudeUsage | undefined {
+  if (!isObject(raw)) return undefined;
+  return {
+    inputTokens: num(raw.input_tokens) ?? 0,
+    outputTokens: num(raw.output_tokens) ?? 0,
+    cacheCreationInputTokens: num(raw.cache_creation_input_tokens) ?? 0,
+    cacheReadInputTokens: num(raw.cache_read_input_tokens) ?? 0,
+  };
+}
+
+/**
+ * Parse a CLI result envelope object. Returns null if it is not one.
+ */
+export function parseResultEnvelope(raw: unknown): ResultEnvelope | null {
+  if (!isObject(raw) || raw.type !== 'result') return null;
+
+  return {
+    result: str(raw.result) ?? '',
+    metadata: {
+      sessionId: str(raw.session_id),
+      numTurns: num(raw.num_turns),
+      usage: parseUsage(raw.usage),
+      totalCostUsd: num(raw.total_cost_usd),
+      isError: typeof raw.is_error === 'boolean' ? raw.is_error : undefined,
+      subtype: str(raw.subtype),
+    },
+  };
+}
+
+/**
+ * Parse `--output-format json` stdout. Returns null for non-JSON output
+ * (e.g., the CLI crashed before printing the envelope).
+ */
+export function parseJsonOutput(stdout: string): ResultEnvelope | null {
+  try {
+    return parseResultEnvelope(JSON.parse(stdout.trim()));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a byte stream into newline-delimited lines
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.length > 0) yield buffer;
+}
+
+/**
+ * Stream-json input line (`--input-format stream-json`) carrying one user
+ * turn. The CLI only takes user turns, so a conversation becomes one text
+ * block per message, labelled with its role; a lone user message is sent as is.
+ */
+export function formatUserMessage(input: string | ClaudeMessage[]): string {
+  const texts =
+    typeof input === 'string'
+      ? [input]
+      : input.length === 1 && input[0].role === 'user'
+        ? [input[0].content]
+        : input.map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`);
+  const message = { role: 'user', content: texts.map((text) => ({ type: 'text', text })) };
+  return `${JSON.stringify({ type: 'user', message })}\n`;
+}
+
+/**
+ * Flatten tool_result content (string or content blocks) to text
+ */
+function flattenContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.map((block) => (isObject(block) ? (str(block.text) ?? '') : '')).join('');
+}
+
+/**
+ * Parser for `--output-format stream-json` lines.
+ *
+ * With `--include-partial-messages` the CLI sends text deltas first and the
+ * complete assistant message afterwards; text from the complete message is
+ * skipped when deltas were already emitted for it.
+ */
+export class StreamJsonParser {
+  /** Parsed `result` line, if seen */
+  envelope: ResultEnvelope | null = null;
+  /** All assistant text seen so far */
+  text = '';
+
+  private sawDeltas = false;
+
+  parse(line: string): ClaudeStreamEvent[] {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+
+    let msg: unknown;
+    try {
+      msg = JSON.parse(trimmed);
+    } catch {
+      return [];
+    }
+    if (!isObject(msg)) return [];
+
+    switch (msg.type) {
+      case 'stream_event': {
+        const event = msg.event;
+        if (!isObject(event) || event.type !== 'content_block_delta') return [];
+        const delta = event.delta;
+        const text = isObject(delta) && delta.type === 'text_delta' ? str(delta.text) : undefined;
+        if (text === undefined) return [];
+        this.sawDeltas = true;
+        this.text += text;
+        return [{ type: 'text', text }];
+      }
+
+      case 'assistant': {
+        const events: ClaudeStreamEvent[] = [];
+        for (const block of contentBlocks(msg)) {
+          const text = str(block.text);
+          if (block.type === 'text' && text !== undefined && !this.sawDeltas) {
+            this.text += text;
+            events.push({ type: 'text', text });
+          } else if (block.type === 'tool_use') {
+            events.push({
+              type: 'tool_use',
+              id: str(block.id) ?? '',
+              name: str(block.name) ?? '',
+              input: block.input,
+            });
+          }
+        }
+        this.sawDeltas = false;
+        return events;
+      }
+
+      case 'user':
+        return contentBlocks(msg)
+          .filter((block) => block.type === 'tool_result')
+          .map((block) => ({
+            type: 'tool_result' as const,
+            toolUseId: str(block.tool_use_id) ?? '',
+            content: flattenContent(block.content),
+            isError: block.is_error === true,
+          }));
+
+      case 'result':
+        this.envelope = parseResultEnvelope(msg);
+        return [];
+
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the warm process pool
+ *
+ * Test cases:
+ * - Settings parsing (true, object, enabled: false, invalid values)
+ * - Which calls may use a warm process
+ * - First call warms a process, the next one is served over stdin
+ * - Recycling after maxRequests, reuse below it
+ * - Crash mid-request falls back; repeated crashes pause the pool
+ * - Idle crash replaced, exited process never handed out, idle processes reaped
+ * - Timeout and abort kill the process; stop() kills all
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { ClaudeCodeCancelledError, ClaudeCodeTimeoutError } from './errors';
+import { DEFAULT_POOL_CONFIG, ProcessPool, isPoolable, poolConfigFromSettings } from './pool';
+import { FakeProcessRunner } from './runner';
+import type { FakeCall, FakeResponse, RunningProcess } from './runner';
+import type { ProcessPoolConfig } from './types';
+
+/**
+ * Fake CLI answering each stream-json user turn with an assistant message and
+ * a result line echoing the prompt
+ */
+function reply(line: string, call: FakeCall): string {
+  const text = JSON.parse(line).message.content[0].text;
+  const result = `${text} (#${call.stdin.length})`;
+  return [
+    JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: result }] } }),
+    JSON.stringify({ type: 'result', subtype: 'success', result, session_id: 's-1' }),
+    '',
+  ].join('\n');
+}
+
+function pool(
+  responses: FakeResponse | FakeResponse[] = { onInput: reply },
+  config: Partial<ProcessPoolConfig> = {}
+) {
+  const runner = new FakeProcessRunner(responses);
+  return { runner, pool: new ProcessPool(runner, { ...DEFAULT_POOL_CONFIG, ...config }) };
+}
+
+const run = { timeout: 5000 };
+
+/** Let the pool spawn processes in the background */
+const settle = () => Bun.sleep(20);
+
+describe('poolConfigFromSettings', () => {
+  test('reads true, objects and enabled: false', () => {
+    expect(poolConfigFromSettings(undefined)).toBeNull();
+    expect(poolConfigFromSettings({ enabled: false, size: 2 })).toBeNull();
+    expect(poolConfigFromSettings(true)).toEqual(DEFAULT_POOL_CONFIG);
+    expect(poolConfigFromSettings({ size: 2, maxRequests: 10, models: ['haiku'] })).toEqual({
+      ...DEFAULT_POOL_CONFIG,
+      size: 2,
+      maxRequests: 10,
+      models: ['haiku'],
+    });
+  });
+
+  test('ignores invalid values', () => {
+    expect(poolConfigFromSettings({ size: 0, idleTimeout: '1m' })).toEqual(DEFAULT_POOL_CONFIG);
+  });
+});
+
+describe('isPoolable', () => {
+  test('accepts plain prompts only', () => {
+    expect(isPoolable({ prompt: 'hi', model: 'haiku', systemPrompt: 'Be brief.' })).toBe(true);
+    expect(isPoolable({ prompt: 'hi', allowedTools: [] })).toBe(true);
+    expect(isPoolable({ prompt: 'hi', cwd: '/repo' })).toBe(false);
+    expect(isPoolable({ prompt: 'hi', sessionKey: 'room-1' })).toBe(false);
+    expect(isPoolable({ prompt: 'hi', allowedTools: ['Read'] })).toBe(false);
+    expect(isPoolable({ prompt: 'hi', profile: 'readonly' })).toBe(false);
+    expect(isPoolable({ prompt: 'hi', files: [{ path: 'a', data: 'x' }] })).toBe(false);
+  });
+});
+
+describe('ProcessPool', () => {
+  test('warms on first call and serves the next over stdin', async () => {
+    const { runner, pool: p } = pool();
+    expect(await p.run('haiku', [], 'first', run)).toBeNull();
+    await settle();
+
+    const result = await p.run('haiku', ['--append-system-prompt', 'Be brief.'], 'x', run);
+    expect(result).toBeNull(); // different system prompt, different process
+    await settle();
+
+    expect(await p.run('haiku', [], 'second', run)).toEqual({
+      output: 'second (#1)',
+      stderr: '',
+      exitCode: 0,
+      metadata: expect.objectContaining({ sessionId: 's-1' }),
+    });
+    expect(runner.calls[0].args).toEqual([
+      '-p',
+      '--input-format',
+      'stream-json',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+      '--model',
+      'haiku',
+    ]);
+    expect(JSON.parse(runner.calls[0].stdin[0])).toEqual({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: 'second' }] },
+    });
+    await p.stop();
+  });
+
+  test('recycles a process after maxRequests', async () => {
+    const { runner, pool: p } = pool(undefined, { models: ['sonnet'] });
+    await settle();
+    expect((await p.run('sonnet', [], 'a', run))?.output).toBe('a (#1)');
+    await settle();
+
+    expect(runner.calls[0].killed).toBe(true);
+    expect(runner.calls).toHaveLength(2);
+    expect((await p.run('sonnet', [], 'b', run))?.output).toBe('b (#1)');
+    expect(p.getStatus()).toMatchObject({ healthy: true, failures: 0 });
+    await p.stop();
+  });
+
+  test('reuses a process below maxRequests', async () => {
+    const { runner, pool: p } = pool(undefined, { models: ['sonnet'], maxRequests: 3 });
+    await settle();
+    await p.run('sonnet', [], 'a', run);
+    expect((await p.run('sonnet', [], 'b', run))?.output).toBe('b (#2)');
+    expect(runner.calls).toHaveLength(1);
+    await p.stop();
+  });
+
+  test('falls back on a crash and pauses after repeated crashes', async () => {
+    const crash: FakeResponse = {
+      onInput: () => {
+        throw new Error('segfault');
+      },
+    };
+    const { runner, pool: p } = pool(crash, { models: ['sonnet'], maxFailures: 2 });
+    await settle();
+
+    expect(await p.run('sonnet', [], 'a', run)).toBeNull();
+    expect(p.getStatus()).toMatchObject({ healthy: true, failures: 1 });
+    await settle(); // replaced
+
+    expect(await p.run('sonnet', [], 'b', run)).toBeNull();
+    expect(p.getStatus()).toMatchObject({ healthy: false, processes: 0 });
+    expect(p.getStatus().cooldownUntil).toBeGreaterThan(Date.now());
+
+    // Paused: no warm-up, callers spawn per request
+    expect(await p.run('sonnet', [], 'c', run)).toBeNull();
+    await settle();
+    expect(runner.calls).toHaveLength(2);
+    await p.stop();
+  });
+
+  test('replaces a process that dies while idle', async () => {
+    const { runner, pool: p } = pool([{ exitCode: 1 }, { onInput: reply }], {
+      models: ['sonnet'],
+    });
+    await settle();
+    expect(runner.calls).toHaveLength(2);
+    expect(p.getStatus()).toMatchObject({ processes: 1, failures: 1 });
+
+    expect((await p.run('sonnet', [], 'a', run))?.output).toBe('a (#1)');
+    expect(p.getStatus().failures).toBe(0);
+    await p.stop();
+  });
+
+  test('skips a process that exited before its exit was handled', async () => {
+    const runner = new FakeProcessRunner({ onInput: reply });
+    const procs: RunningProcess[] = [];
+    const spawn = runner.spawn.bind(runner);
+    runner.spawn = (args, options) => {
+      const proc = spawn(args, options);
+      procs.push(proc);
+      return proc;
+    };
+    const p = new ProcessPool(runner, { ...DEFAULT_POOL_CONFIG, size: 2, models: ['sonnet'] });
+    await settle();
+
+    procs[0].kill('SIGKILL');
+    expect((await p.run('sonnet', [], 'a', run))?.output).toBe('a (#1)');
+    expect(runner.calls[0].stdin).toEqual([]);
+    await p.stop();
+  });
+
+  test('stops idle processes after idleTimeout', async () => {
+    const { runner, pool: p } = pool(undefined, { models: ['sonnet'], idleTimeout: 10 });
+    await Bun.sleep(60);
+    expect(runner.calls[0].killed).toBe(true);
+    expect(runner.calls).toHaveLength(1);
+    expect(p.getStatus()).toMatchObject({ processes: 0, failures: 0 });
+    await p.stop();
+  });
+
+  test('kills a process that times out', async () => {
+    const { runner, pool: p } = pool({ onInput: () => undefined }, { models: ['sonnet'] });
+    await settle();
+
+    const running = p.run('sonnet', [], 'a', { timeout: 20 });
+    await expect(running).rejects.toBeInstanceOf(ClaudeCodeTimeoutError);
+    expect(runner.calls[0].killed).toBe(true);
+    expect(p.getStatus().failures).toBe(0);
+    await p.stop();
+  });
+
+  test('kills a process whose call is aborted', async () => {
+    const { runner, pool: p } = pool({ onInput: () => undefined }, { models: ['sonnet'] });
+    await settle();
+    const controller = new AbortController();
+
+    const running = p.run('sonnet', [], 'a', { timeout: 5000, signal: controller.signal });
+    controller.abort();
+    await expect(running).rejects.toBeInstanceOf(ClaudeCodeCancelledError);
+    expect(runner.calls[0].signals[0]).toBe('SIGTERM');
+    expect(p.getStatus().failures).toBe(0);
+    await p.stop();
+  });
+
+  test('kills warm processes on stop', async () => {
+    const { runner, pool: p } = pool(undefined, { models: ['sonnet', 'haiku'] });
+    await settle();
+    await p.stop();
+    expect(runner.calls.map((c) => c.killed)).toEqual([true, true]);
+    expect(await p.run('sonnet', [], 'a', run)).toBeNull();
+  });
+});
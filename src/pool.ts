@@ -0,0 +1,371 @@
+import { logger } from '@elizaos/core';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ClaudeCodeCancelledError, ClaudeCodeTimeoutError } from './errors';
+import { formatUserMessage, readLines, type ResultEnvelope, StreamJsonParser } from './output';
+import { DEFAULT_KILL_GRACE, terminate } from './runner';
+import type { ProcessRunner, RunningProcess } from './runner';
+import type {
+  ClaudeInvokeOptions,
+  ClaudeMessage,
+  ClaudeModel,
+  ClaudeResultMetadata,
+  ProcessPoolConfig,
+  ProcessPoolStatus,
+} from './types';
+
+export const DEFAULT_POOL_CONFIG: ProcessPoolConfig = {
+  size: 1,
+  maxRequests: 1,
+  idleTimeout: 300000, // 5 minutes
+  maxFailures: 3,
+  cooldown: 60000,
+  models: [],
+};
+
+/** Prompts arrive as stream-json user turns on stdin */
+const POOL_ARGS = [
+  '-p',
+  '--input-format',
+  'stream-json',
+  '--output-format',
+  'stream-json',
+  '--verbose',
+];
+const MAX_STDERR = 64 * 1024;
+const MAX_REAP_INTERVAL = 60000;
+
+/**
+ * Read `claudeCode.pool` (true or an object). Returns null when the pool is
+ * not configured or `enabled: false`.
+ */
+export function poolConfigFromSettings(settings: unknown): ProcessPoolConfig | null {
+  if (settings === true) return { ...DEFAULT_POOL_CONFIG };
+  if (!settings || typeof settings !== 'object') return null;
+  const s = settings as Record<string, unknown>;
+  if (s.enabled === false) return null;
+
+  const positive = (key: Exclude<keyof ProcessPoolConfig, 'models'>): number => {
+    const value = s[key];
+    return typeof value === 'number' && value >= 1 ? value : DEFAULT_POOL_CONFIG[key];
+  };
+  return {
+    size: positive('size'),
+    maxRequests: positive('maxRequests'),
+    idleTimeout: positive('idleTimeout'),
+    maxFailures: positive('maxFailures'),
+    cooldown: positive('cooldown'),
+    models: Array.isArray(s.models) ? (s.models as ClaudeModel[]) : [],
+  };
+}
+
+/**
+ * Whether a call can run on a warm process. Warm processes are started in
+ * their own empty directory with default tools, so calls with a workspace,
+ * session, tool restrictions or MCP servers always spawn.
+ */
+export function isPoolable(options: ClaudeInvokeOptions): boolean {
+  const tools = (list?: string[] | string) => (list ? list.length > 0 : false);
+  return (
+    !options.cwd &&
+    !options.sessionKey &&
+    !tools(options.allowedTools) &&
+    !tools(options.disallowedTools) &&
+    !options.permissionMode &&
+    !options.profile &&
+    !options.mcpServers &&
+    !options.files?.length &&
+    !options.captureChanges &&
+    !options.isolation
+  );
+}
+
+/**
+ * Output of a request served by a warm process
+ */
+export interface PooledResult {
+  output: string;
+  stderr: string;
+  exitCode: number;
+  metadata: ClaudeResultMetadata;
+}
+
+interface WarmProcess {
+  key: string;
+  model: ClaudeModel;
+  extraArgs: string[];
+  proc: RunningProcess;
+  dir: string;
+  lines: AsyncGenerator<string>;
+  /** Stderr since the current request started */
+  stderr: string;
+  requests: number;
+  busy: boolean;
+  /** Stopped on purpose (recycled, reaped, timed out) or already counted as a crash */
+  retired: boolean;
+  lastUsed: number;
+}
+
+function poolKey(model: ClaudeModel, extraArgs: string[]): string {
+  return JSON.stringify([model, ...extraArgs]);
+}
+
+/**
+ * Long-lived CLI processes driven with `--input-format stream-json`, keyed by
+ * model and system prompt args. A call takes an idle warm process if one is
+ * ready and still running, and otherwise returns null, so the caller spawns
+ * as usual while a process is warmed for next time. Processes are recycled after maxRequests,
+ * stopped after idleTimeout, and replaced when they crash; after maxFailures
+ * consecutive crashes the pool pauses for the cooldown.
+ */
+export class ProcessPool {
+  private processes: WarmProcess[] = [];
+  private starting = new Map<string, number>();
+  private failures = 0;
+  private cooldownUntil = 0;
+  private reaper: ReturnType<typeof setInterval>;
+  private stopped = false;
+
+  constructor(
+    private runner: ProcessRunner,
+    readonly config: ProcessPoolConfig,
+    private killGrace: number = DEFAULT_KILL_GRACE
+  ) {
+    this.reaper = setInterval(() => this.reap(), Math.min(config.idleTimeout, MAX_REAP_INTERVAL));
+    this.reaper.unref?.();
+    for (const model of config.models) {
+      this.fill(model, []);
+    }
+  }
+
+  /**
+   * False after stop() and while paused after repeated crashes. Whether a
+   * single warm process is still running is checked when it is handed out.
+   */
+  isHealthy(): boolean {
+    return !this.stopped && Date.now() >= this.cooldownUntil;
+  }
+
+  /**
+   * Send a prompt (or messages) to an idle warm process and wait for its result line.
+   * Returns null (caller should spawn) when the pool is unhealthy, no process
+   * is ready or the process crashed mid-request. Throws
+   * ClaudeCodeTimeoutError or ClaudeCodeCancelledError after terminating a
+   * process that took too long or whose call was aborted.
+   */
+  async run(
+    model: ClaudeModel,
+    extraArgs: string[],
+    prompt: string | ClaudeMessage[],
+    options: { timeout: number; signal?: AbortSignal }
+  ): Promise<PooledResult | null> {
+    const { timeout, signal } = options;
+    if (!this.isHealthy()) return null;
+    const key = poolKey(model, extraArgs);
+    // A process that exited since it was warmed is left to its exit handler
+    const warm = this.processes.find(
+      (p) => p.key === key && !p.busy && !p.retired && p.proc.exitCode === null
+    );
+    if (!warm?.proc.stdin) {
+      this.fill(model, extraArgs);
+      return null;
+    }
+
+    warm.busy = true;
+    warm.stderr = '';
+    warm.requests++;
+    logger.debug(`[claude-code] using warm process for model=${model} (#${warm.requests})`);
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let onAbort: (() => void) | null = null;
+    const start = Date.now();
+    const details = () => ({ model, stderr: warm.stderr.trim(), duration: Date.now() - start });
+    try {
+      warm.proc.stdin.write(formatUserMessage(prompt));
+      const stopped = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          this.retire(warm);
+          reject(new ClaudeCodeTimeoutError(timeout, details()));
+        }, timeout);
+        onAbort = () => {
+          this.retire(warm);
+          reject(new ClaudeCodeCancelledError(signal?.reason, details()));
+        };
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+      const envelope = await Promise.race([this.readResult(warm).catch(() => null), stopped]);
+      if (!envelope) {
+        this.crashed(warm, 'exited mid-request');
+        return null;
+      }
+      this.failures = 0;
+      return {
+        output: envelope.result,
+        stderr: warm.stderr,
+        exitCode: envelope.metadata.isError ? 1 : 0,
+        metadata: envelope.metadata,
+      };
+    } catch (error) {
+      if (error instanceof ClaudeCodeTimeoutError || error instanceof ClaudeCodeCancelledError) {
+        throw error;
+      }
+      this.crashed(warm, String(error));
+      return null;
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+      warm.busy = false;
+      warm.lastUsed = Date.now();
+      if (warm.requests >= this.config.maxRequests) {
+        this.retire(warm);
+      }
+      this.fill(model, extraArgs);
+    }
+  }
+
+  getStatus(): ProcessPoolStatus {
+    return {
+      healthy: this.isHealthy(),
+      processes: this.processes.length,
+      busy: this.processes.filter((p) => p.busy).length,
+      failures: this.failures,
+      cooldownUntil: this.cooldownUntil > Date.now() ? this.cooldownUntil : undefined,
+    };
+  }
+
+  /**
+   * Kill all warm processes; the pool serves no further requests
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.reaper);
+    const processes = [...this.processes];
+    for (const warm of processes) {
+      this.retire(warm);
+    }
+    await Promise.all(processes.map((p) => p.proc.exited.catch(() => {})));
+  }
+
+  private async readResult(warm: WarmProcess): Promise<ResultEnvelope | null> {
+    const parser = new StreamJsonParser();
+    for (;;) {
+      const { value, done } = await warm.lines.next();
+      if (done) return null;
+      parser.parse(value);
+      if (parser.envelope) return parser.envelope;
+    }
+  }
+
+  /**
+   * Start processes until the key has `size` live or starting ones
+   */
+  private fill(model: ClaudeModel, extraArgs: string[]): void {
+    if (!this.isHealthy()) return;
+    const key = poolKey(model, extraArgs);
+    const live = this.processes.filter((p) => p.key === key && !p.retired).length;
+    for (let i = live + (this.starting.get(key) ?? 0); i < this.config.size; i++) {
+      this.starting.set(key, (this.starting.get(key) ?? 0) + 1);
+      this.spawn(key, model, extraArgs)
+        .catch((error) => {
+          logger.warn(`[claude-code] failed to start warm process: ${error}`);
+          this.recordFailure();
+        })
+        .finally(() => this.starting.set(key, (this.starting.get(key) ?? 1) - 1));
+    }
+  }
+
+  private async spawn(key: string, model: ClaudeModel, extraArgs: string[]): Promise<void> {
+    const dir = await mkdtemp(join(process.env.TMPDIR || tmpdir(), 'claude-pool-'));
+    let proc: RunningProcess;
+    try {
+      proc = this.runner.spawn([...POOL_ARGS, '--model', model, ...extraArgs], {
+        cwd: dir,
+        stdin: true,
+      });
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
+
+    const warm: WarmProcess = {
+      key,
+      model,
+      extraArgs,
+      proc,
+      dir,
+      lines: readLines(proc.stdout),
+      stderr: '',
+      requests: 0,
+      busy: false,
+      retired: false,
+      lastUsed: Date.now(),
+    };
+    this.processes.push(warm);
+    this.drainStderr(warm);
+    proc.exited.then(
+      (code) => this.exited(warm, `exited with code ${code}`),
+      (error) => this.exited(warm, String(error))
+    );
+    if (this.stopped) {
+      this.retire(warm);
+    } else {
+      logger.debug(`[claude-code] warmed process for model=${model}`);
+    }
+  }
+
+  private drainStderr(warm: WarmProcess): void {
+    (async () => {
+      for await (const line of readLines(warm.proc.stderr)) {
+        if (warm.stderr.length < MAX_STDERR) warm.stderr += `${line}\n`;
+      }
+    })().catch(() => {});
+  }
+
+  private exited(warm: WarmProcess, reason: string): void {
+    this.processes = this.processes.filter((p) => p !== warm);
+    rm(warm.dir, { recursive: true, force: true }).catch(() => {});
+    // Busy processes are handled by run(), which falls back to spawning
+    if (!warm.busy && !warm.retired) {
+      this.crashed(warm, reason);
+      this.fill(warm.model, warm.extraArgs);
+    }
+  }
+
+  /**
+   * Count an unexpected exit once per process
+   */
+  private crashed(warm: WarmProcess, reason: string): void {
+    if (warm.retired) return;
+    this.retire(warm);
+    logger.warn(`[claude-code] warm process for model=${warm.model} ${reason}`);
+    this.recordFailure();
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+    if (this.failures >= this.config.maxFailures) {
+      const { cooldown, maxFailures } = this.config;
+      this.cooldownUntil = Date.now() + cooldown;
+      logger.warn(`[claude-code] warm pool paused for ${cooldown}ms after ${maxFailures} crashes`);
+      this.failures = 0;
+    }
+  }
+
+  private retire(warm: WarmProcess): void {
+    if (warm.retired) return;
+    warm.retired = true;
+    void terminate(warm.proc, this.killGrace);
+  }
+
+  private reap(): void {
+    const cutoff = Date.now() - this.config.idleTimeout;
+    for (const warm of this.processes) {
+      if (!warm.busy && !warm.retired && warm.lastUsed < cutoff) {
+        logger.debug(`[claude-code] stopping idle warm process for model=${warm.model}`);
+        this.retire(warm);
+      }
+    }
+  }
+}
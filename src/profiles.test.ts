@@ -0,0 +1,71 @@
+/**
+ * Unit tests for permission profiles
+ *
+ * Test cases:
+ * - Built-in profiles are valid
+ * - Settings add and override profiles, Bash patterns become Bash(...) entries
+ * - Unknown tools, malformed entries and bad permission modes are rejected
+ * - Allow/deny conflicts are rejected, including patterns of a denied tool
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_PERMISSION_PROFILES,
+  profileAllowedTools,
+  resolvePermissionProfiles,
+} from './profiles';
+import { ClaudeCodeConfigError } from './errors';
+
+describe('resolvePermissionProfiles', () => {
+  test('returns built-in profiles without settings', () => {
+    expect(resolvePermissionProfiles(undefined)).toEqual(DEFAULT_PERMISSION_PROFILES);
+    expect(Object.keys(DEFAULT_PERMISSION_PROFILES)).toEqual(['readonly', 'edit', 'full']);
+  });
+
+  test('adds and overrides profiles from settings', () => {
+    const profiles = resolvePermissionProfiles({
+      readonly: { allowedTools: ['Read'] },
+      git: {
+        allowedTools: ['Read', 'Grep', 'mcp__tickets__search'],
+        disallowedTools: ['Bash(git push:*)'],
+        bash: ['git log:*', 'git diff:*'],
+        permissionMode: 'plan',
+      },
+    });
+    expect(profiles.readonly).toEqual({ allowedTools: ['Read'], disallowedTools: [] });
+    expect(profiles.edit).toEqual(DEFAULT_PERMISSION_PROFILES.edit);
+    expect(profileAllowedTools(profiles.git)).toEqual([
+      'Read',
+      'Grep',
+      'mcp__tickets__search',
+      'Bash(git log:*)',
+      'Bash(git diff:*)',
+    ]);
+  });
+
+  test('rejects invalid profiles', () => {
+    const invalid = [
+      { bad: { allowedTools: ['Reed'] } },
+      { bad: { allowedTools: ['Read'], disallowedTools: ['Shell(rm:*)'] } },
+      { bad: { allowedTools: ['Bash(git log:*'] } },
+      { bad: { allowedTools: 'Read' } },
+      { bad: { allowedTools: ['Read'], permissionMode: 'yolo' } },
+      { bad: 'readonly' },
+      ['readonly'],
+    ];
+    for (const configured of invalid) {
+      expect(() => resolvePermissionProfiles(configured)).toThrow(ClaudeCodeConfigError);
+    }
+  });
+
+  test('rejects conflicting allow and deny entries', () => {
+    expect(() =>
+      resolvePermissionProfiles({ bad: { allowedTools: ['Read'], disallowedTools: ['Read'] } })
+    ).toThrow("'Read' is both allowed and denied");
+    expect(() =>
+      resolvePermissionProfiles({
+        bad: { allowedTools: [], disallowedTools: ['Bash'], bash: ['git log:*'] },
+      })
+    ).toThrow("'Bash(git log:*)' is both allowed and denied ('Bash')");
+  });
+});
@@ -0,0 +1,137 @@
+import { ClaudeCodeConfigError } from './errors';
+import type { PermissionMode, PermissionProfile } from './types';
+
+/**
+ * Built-in CLI tools accepted in profiles (MCP tools, `mcp__*`, are always accepted)
+ */
+export const KNOWN_TOOLS = [
+  'Bash',
+  'BashOutput',
+  'Edit',
+  'ExitPlanMode',
+  'Glob',
+  'Grep',
+  'KillShell',
+  'LS',
+  'MultiEdit',
+  'NotebookEdit',
+  'NotebookRead',
+  'Read',
+  'SlashCommand',
+  'Task',
+  'TodoWrite',
+  'WebFetch',
+  'WebSearch',
+  'Write',
+];
+
+const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'plan', 'bypassPermissions'];
+
+const READ_TOOLS = ['Read', 'Grep', 'Glob', 'LS'];
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+/**
+ * Profiles available without configuration; settings may override them
+ */
+export const DEFAULT_PERMISSION_PROFILES: Record<string, PermissionProfile> = {
+  readonly: {
+    allowedTools: READ_TOOLS,
+    disallowedTools: [...EDIT_TOOLS, 'Bash'],
+  },
+  edit: {
+    allowedTools: [...READ_TOOLS, 'Edit', 'MultiEdit', 'Write'],
+    disallowedTools: ['Bash'],
+    permissionMode: 'acceptEdits',
+  },
+  full: {
+    allowedTools: [...READ_TOOLS, ...EDIT_TOOLS, 'Bash', 'WebFetch', 'WebSearch', 'TodoWrite'],
+    disallowedTools: [],
+    permissionMode: 'acceptEdits',
+  },
+};
+
+/**
+ * Tool name without its specifier: `Bash(git log:*)` -> `Bash`
+ */
+function baseTool(entry: string): string {
+  const paren = entry.indexOf('(');
+  return paren === -1 ? entry : entry.slice(0, paren);
+}
+
+function checkEntry(profile: string, entry: string): void {
+  if (entry.startsWith('mcp__')) return; // checked against MCP servers per call
+  const paren = entry.indexOf('(');
+  if (paren !== -1 && (!entry.endsWith(')') || paren === entry.length - 2)) {
+    throw new ClaudeCodeConfigError(`profile '${profile}': malformed tool entry '${entry}'`);
+  }
+  if (!KNOWN_TOOLS.includes(baseTool(entry))) {
+    throw new ClaudeCodeConfigError(`profile '${profile}': unknown tool '${baseTool(entry)}'`);
+  }
+}
+
+/**
+ * Allowed tool entries of a profile, with Bash patterns as `Bash(<pattern>)`
+ */
+export function profileAllowedTools(profile: PermissionProfile): string[] {
+  return [...profile.allowedTools, ...(profile.bash ?? []).map((p) => `Bash(${p})`)];
+}
+
+/**
+ * Check tool names, Bash patterns and permission mode of a profile, and that
+ * nothing is both allowed and denied (including patterns of a denied tool)
+ */
+export function validatePermissionProfile(name: string, profile: PermissionProfile): void {
+  const list = (value: unknown, field: string): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && v.trim())) {
+      throw new ClaudeCodeConfigError(`profile '${name}': ${field} must be a list of strings`);
+    }
+    return value;
+  };
+  list(profile.bash, 'bash');
+  const allowed = profileAllowedTools({
+    ...profile,
+    allowedTools: list(profile.allowedTools, 'allowedTools'),
+  });
+  const denied = list(profile.disallowedTools, 'disallowedTools');
+
+  for (const entry of [...allowed, ...denied]) {
+    checkEntry(name, entry);
+  }
+  for (const entry of allowed) {
+    const conflict = denied.find((d) => d === entry || d === baseTool(entry));
+    if (conflict) {
+      throw new ClaudeCodeConfigError(
+        `profile '${name}': '${entry}' is both allowed and denied ('${conflict}')`
+      );
+    }
+  }
+  if (profile.permissionMode !== undefined && !PERMISSION_MODES.includes(profile.permissionMode)) {
+    throw new ClaudeCodeConfigError(
+      `profile '${name}': unknown permission mode '${profile.permissionMode}'`
+    );
+  }
+}
+
+/**
+ * Built-in profiles merged with `claudeCode.permissionProfiles`, all validated.
+ * Throws ClaudeCodeConfigError on the first invalid profile.
+ */
+export function resolvePermissionProfiles(configured: unknown): Record<string, PermissionProfile> {
+  const profiles: Record<string, PermissionProfile> = { ...DEFAULT_PERMISSION_PROFILES };
+  if (configured !== undefined) {
+    if (!configured || typeof configured !== 'object' || Array.isArray(configured)) {
+      throw new ClaudeCodeConfigError('permissionProfiles must be an object');
+    }
+    for (const [name, profile] of Object.entries(configured)) {
+      if (!profile || typeof profile !== 'object') {
+        throw new ClaudeCodeConfigError(`profile '${name}' must be an object`);
+      }
+      profiles[name] = { allowedTools: [], disallowedTools: [], ...profile };
+    }
+  }
+  for (const [name, profile] of Object.entries(profiles)) {
+    validatePermissionProfile(name, profile);
+  }
+  return profiles;
+}
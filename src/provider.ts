@@ -5,12 +5,40 @@ import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
 import type { ClaudeCodeService } from './service';
+import type { GenerateOptions, PromptTransport, SystemPromptMode } from './types';
+import { generateObjectWith } from './object';
+import type { ObjectRequest } from './object';
+import type { ImageDescription, ImageInput } from './image';
+import { isAuthError } from './types';
+import {
+  ClaudeCodeError,
+  ClaudeCodeAuthError,
+  ClaudeCodeCancelledError,
+  ClaudeCodeEmptyOutputError,
+  ClaudeCodeExitError,
+  ClaudeCodeSpawnError,
+  ClaudeCodeTimeoutError,
+} from './errors';
+import { resolveTruncationStrategy } from './truncate';
+import type { TruncationStrategy } from './truncate';
+import { BunProcessRunner, DEFAULT_KILL_GRACE, stoppedError, terminate } from './runner';
+import type { ProcessRunner, RunnerConfig, RunningProcess } from './runner';
 
 const TIMEOUT = 120000; // 2 minutes
 const MAX_PROMPT_LENGTH = 50000;
 
-interface ClaudeCodeOptions {
+interface ClaudeCodeOptions extends RunnerConfig {
   timeout?: number;
+  /** Process runner (defaults to Bun.spawn with executable/extraArgs/env) */
+  runner?: ProcessRunner;
+  /** Truncation strategy (function or registered name), defaults to 'sections' */
+  truncation?: TruncationStrategy | string;
+  /** How system prompts are passed (defaults to 'append') */
+  systemPromptMode?: SystemPromptMode;
+  /** Milliseconds between SIGTERM and SIGKILL when stopping the CLI */
+  killGrace?: number;
+  /** How the prompt reaches the CLI (defaults to 'stdin') */
+  promptTransport?: PromptTransport;
 }
 
 /**
@@ -20,15 +48,26 @@ interface ClaudeCodeOptions {
  */
 export class ClaudeCodeModelProvider {
   private timeout: number;
+  private truncate: TruncationStrategy;
+  private runner: ProcessRunner;
+  private systemPromptMode: SystemPromptMode;
+  private killGrace: number;
+  private promptTransport: PromptTransport;
 
   constructor(options: ClaudeCodeOptions = {}) {
     this.timeout = options.timeout || TIMEOUT;
+    this.promptTransport = options.promptTransport ?? 'stdin';
+    this.killGrace = options.killGrace ?? DEFAULT_KILL_GRACE;
+    this.systemPromptMode = options.systemPromptMode ?? 'append';
+    this.runner = options.runner ?? new BunProcessRunner(options);
+    this.truncate = resolveTruncationStrategy(options.truncation);
   }
 
   async generateText(
     runtime: unknown,
     prompt: string,
-    model: 'sonnet' | 'opus' | 'haiku' = 'sonnet'
+    model: 'sonnet' | 'opus' | 'haiku' = 'sonnet',
+    options: GenerateOptions = {}
   ): Promise<string> {
     // Try to use ClaudeCodeService if available (unified auth handling)
     const typedRuntime = runtime as IAgentRuntime | undefined;
@@ -36,27 +75,103 @@ export class ClaudeCodeModelProvider {
       const service = typedRuntime.getService<ClaudeCodeService>('claude_code');
       if (service) {
         logger.debug('[claude-code] using ClaudeCodeService for generation');
-        return service.generateText(prompt, model);
+        return service.generateText(prompt, model, options);
       }
     }
 
-    // Fallback to direct invocation (backward compat)
-    return this.invokeDirectly(prompt, model);
+    // Fallback to direct invocation (backward compat, no streaming)
+    const output = await this.invokeDirectly(prompt, model, options);
+
+    // If response doesn't start with <response>, wrap it
+    if (!output.startsWith('<response>')) {
+      logger.debug('[claude-code] adding <response> wrapper');
+      return `<response>\n${output}\n</response>`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Generate a JSON value for OBJECT_SMALL / OBJECT_LARGE
+   */
+  async generateObject(
+    runtime: unknown,
+    request: ObjectRequest,
+    model: 'sonnet' | 'opus' | 'haiku' = 'sonnet',
+    options: { signal?: AbortSignal } = {}
+  ): Promise<unknown> {
+    const typedRuntime = runtime as IAgentRuntime | undefined;
+    if (typedRuntime?.getService) {
+      const service = typedRuntime.getService<ClaudeCodeService>('claude_code');
+      if (service) {
+        logger.debug('[claude-code] using ClaudeCodeService for object generation');
+        return service.generateObject(request, model, options);
+      }
+    }
+
+    return generateObjectWith(request, model, (prompt) =>
+      this.invokeDirectly(prompt, model, options)
+    );
+  }
+
+  /**
+   * Describe an image for IMAGE_DESCRIPTION. Needs ClaudeCodeService, which
+   * stages the image into its temp workspace.
+   */
+  async describeImage(
+    runtime: unknown,
+    params: unknown,
+    model: 'sonnet' | 'opus' | 'haiku' = 'sonnet',
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ImageDescription> {
+    const typedRuntime = runtime as IAgentRuntime | undefined;
+    const service = typedRuntime?.getService?.<ClaudeCodeService>('claude_code');
+    if (!service) {
+      throw new ClaudeCodeError('IMAGE_DESCRIPTION needs the claude_code service', { model });
+    }
+
+    // ElizaOS passes { imageUrl, prompt } or a bare string; bytes are accepted too
+    let image: ImageInput;
+    let prompt: string | undefined;
+    if (
+      typeof params === 'string' ||
+      params instanceof Uint8Array ||
+      params instanceof ArrayBuffer
+    ) {
+      image = params;
+    } else {
+      const { imageUrl, prompt: p } = (params ?? {}) as { imageUrl?: unknown; prompt?: unknown };
+      image = typeof imageUrl === 'string' ? imageUrl : '';
+      prompt = typeof p === 'string' ? p : undefined;
+    }
+    return service.describeImage(image, { prompt, model, signal: options.signal });
   }
 
   /**
-   * Direct CLI invocation (fallback when service not available)
+   * Direct CLI invocation (fallback when service not available).
+   * Returns raw trimmed output.
    */
   private async invokeDirectly(
     prompt: string,
-    model: 'sonnet' | 'opus' | 'haiku'
+    model: 'sonnet' | 'opus' | 'haiku',
+    options: { system?: string; signal?: AbortSignal } = {}
   ): Promise<string> {
+    const { system, signal } = options;
     let tempDir: string | null = null;
-    let proc: ReturnType<typeof Bun.spawn> | null = null;
+    let proc: RunningProcess | null = null;
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let onAbort: (() => void) | null = null;
+    let termination: Promise<void> = Promise.resolve();
+    const startTime = Date.now();
 
     try {
-      const truncated = prompt.slice(-MAX_PROMPT_LENGTH);
+      if (signal?.aborted) {
+        throw new ClaudeCodeCancelledError(signal.reason, { model });
+      }
+
+      // Only the user portion is truncated, the system prompt is kept whole
+      const budget = Math.max(1, MAX_PROMPT_LENGTH - (system?.length ?? 0));
+      const truncated = this.truncate(prompt, budget);
 
       // Create isolated temp workspace for this request
       const baseTmpDir = process.env.TMPDIR || tmpdir();
@@ -66,75 +181,93 @@ export class ClaudeCodeModelProvider {
       logger.debug(`[claude-code] generating with model=${model}`);
       logger.debug(`[claude-code] prompt preview: ${truncated.slice(0, 500)}...`);
 
-      proc = Bun.spawn(['claude', '-p', truncated, '--model', model], {
-        cwd: tempDir,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      });
+      const stdin = this.promptTransport === 'stdin';
+      const args = ['-p', ...(stdin ? [] : [truncated]), '--model', model];
+      if (system) {
+        const flag =
+          this.systemPromptMode === 'replace' ? '--system-prompt' : '--append-system-prompt';
+        args.push(flag, system);
+      }
+      const child = this.runner.spawn(args, { cwd: tempDir, stdin });
+      proc = child;
+      if (child.stdin) {
+        child.stdin.write(truncated);
+        child.stdin.end();
+      }
 
-      const timeout = new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          try {
-            if (proc) {
-              proc.kill();
-            }
-          } catch {
-            // Process already exited
-          }
-          reject(new Error(`ClaudeCodeTimeout: exceeded ${this.timeout / 1000}s`));
-        }, this.timeout);
+      // Timeout or abort stops the CLI and everything it started
+      const stopped = new Promise<never>((_, reject) => {
+        const stop = (error: ClaudeCodeError) => {
+          termination = terminate(child, this.killGrace);
+          reject(error);
+        };
+        timeoutId = setTimeout(
+          () => stop(new ClaudeCodeTimeoutError(this.timeout, { model })),
+          this.timeout
+        );
+        onAbort = () => stop(new ClaudeCodeCancelledError(signal?.reason, { model }));
+        signal?.addEventListener('abort', onAbort, { once: true });
       });
 
-      const [output, errors, exitCode] = await Promise.race([
-        Promise.all([
-          new Response(proc.stdout as ReadableStream).text(),
-          new Response(proc.stderr as ReadableStream).text(),
-          proc.exited,
-        ]),
-        timeout,
+      const finished = Promise.all([
+        new Response(child.stdout).text(),
+        new Response(child.stderr).text(),
+        child.exited,
       ]);
+      let output: string;
+      let errors: string;
+      let exitCode: number;
+      try {
+        [output, errors, exitCode] = await Promise.race([finished, stopped]);
+      } catch (error) {
+        // The kill closes the pipes, so what the CLI printed so far can be read
+        const [, killedStderr] = await finished.catch(() => ['', '']);
+        throw stoppedError(error, killedStderr, Date.now() - startTime);
+      }
 
       if (timeoutId) {
         clearTimeout(timeoutId);
         timeoutId = null;
       }
 
+      const duration = Date.now() - startTime;
+
       if (exitCode !== 0) {
         const stderr = errors.trim();
         const stdout = output.trim();
         logger.error(`[claude-code] failed (exit=${exitCode})`);
         logger.error(`[claude-code] stderr: ${stderr}`);
         logger.error(`[claude-code] stdout: ${stdout}`);
-        throw new Error(`ClaudeCodeError: ${stderr || stdout || 'Unknown error'}`);
+        const details = { model, exitCode, stderr: stderr || stdout, duration };
+        if (isAuthError(stderr) || isAuthError(stdout)) {
+          throw new ClaudeCodeAuthError(details);
+        }
+        throw new ClaudeCodeExitError(details);
       }
 
       if (!output || output.trim().length === 0) {
-        throw new Error('EmptyOutput: Claude Code returned nothing');
+        throw new ClaudeCodeEmptyOutputError({ model, exitCode, stderr: errors.trim(), duration });
       }
 
       logger.debug(`[claude-code] response (length=${output.length})`);
       logger.debug(`[claude-code] raw output preview: ${output.slice(0, 300)}...`);
 
-      const trimmed = output.trim();
-
-      // If response doesn't start with <response>, wrap it
-      if (!trimmed.startsWith('<response>')) {
-        logger.debug('[claude-code] adding <response> wrapper');
-        return `<response>\n${trimmed}\n</response>`;
-      }
-
-      return trimmed;
+      return output.trim();
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       logger.error(`[claude-code] generation failed: ${msg}`);
-      throw error;
+      if (error instanceof ClaudeCodeError) throw error;
+      throw new ClaudeCodeSpawnError(msg, { model, duration: Date.now() - startTime, cause: error });
     } finally {
       // Ensure timeout is cleared
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
 
-      // Ensure process is killed
+      // Ensure process is killed, and wait for a terminated one to be gone
       if (proc) {
         try {
           proc.kill();
@@ -142,6 +275,7 @@ export class ClaudeCodeModelProvider {
           // Process already exited
         }
       }
+      await termination;
 
       // Clean up temp workspace
       if (tempDir) {
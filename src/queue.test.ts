@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the invocation queue
+ *
+ * Test cases:
+ * - Global concurrency limit
+ * - Per-model concurrency limit does not block other models
+ * - Interactive lane runs before background lane
+ * - Queue wait timeout
+ * - Abort while waiting leaves the queue
+ * - Depth introspection
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { InvocationQueue } from './queue';
+import { ClaudeCodeCancelledError, ClaudeCodeQueueTimeoutError } from './errors';
+
+describe('InvocationQueue', () => {
+  test('limits global concurrency', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 2, queueTimeout: 0 });
+    const a = await queue.acquire('sonnet');
+    const b = await queue.acquire('haiku');
+
+    let started = false;
+    const c = queue.acquire('sonnet').then((slot) => {
+      started = true;
+      return slot;
+    });
+    await Bun.sleep(5);
+    expect(started).toBe(false);
+    expect(queue.getDepth().queued).toBe(1);
+
+    a.release();
+    (await c).release();
+    expect(started).toBe(true);
+    b.release();
+    expect(queue.getDepth().running).toBe(0);
+  });
+
+  test('per-model limit lets other models through', async () => {
+    const queue = new InvocationQueue({
+      maxConcurrency: 4,
+      maxConcurrencyPerModel: { opus: 1 },
+      queueTimeout: 0,
+    });
+    const opus = await queue.acquire('opus');
+
+    const order: string[] = [];
+    const blocked = queue.acquire('opus').then((slot) => {
+      order.push('opus');
+      return slot;
+    });
+    const other = queue.acquire('haiku').then((slot) => {
+      order.push('haiku');
+      return slot;
+    });
+
+    (await other).release();
+    expect(order).toEqual(['haiku']);
+
+    opus.release();
+    (await blocked).release();
+    expect(order).toEqual(['haiku', 'opus']);
+  });
+
+  test('interactive lane goes first', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 1, queueTimeout: 0 });
+    const first = await queue.acquire('sonnet', 'normal');
+
+    const order: string[] = [];
+    const background = queue.acquire('sonnet', 'background').then((slot) => {
+      order.push('background');
+      slot.release();
+    });
+    const interactive = queue.acquire('sonnet', 'interactive').then((slot) => {
+      order.push('interactive');
+      slot.release();
+    });
+
+    expect(queue.getDepth().byPriority).toEqual({ interactive: 1, normal: 0, background: 1 });
+
+    first.release();
+    await Promise.all([background, interactive]);
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  test('rejects after queue timeout', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 1, queueTimeout: 10 });
+    const held = await queue.acquire('sonnet');
+
+    await expect(queue.acquire('sonnet')).rejects.toThrow(ClaudeCodeQueueTimeoutError);
+    expect(queue.getDepth().queued).toBe(0);
+    held.release();
+  });
+
+  test('rejects when aborted while waiting', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 1, queueTimeout: 0 });
+    const held = await queue.acquire('sonnet');
+    const controller = new AbortController();
+
+    const waiting = queue.acquire('sonnet', 'normal', controller.signal);
+    expect(queue.getDepth().queued).toBe(1);
+    controller.abort('user left');
+    await expect(waiting).rejects.toThrow(ClaudeCodeCancelledError);
+    expect(queue.getDepth().queued).toBe(0);
+
+    await expect(queue.acquire('sonnet', 'normal', controller.signal)).rejects.toThrow(
+      'cancelled: user left'
+    );
+    held.release();
+    expect(queue.getDepth().running).toBe(0);
+  });
+
+  test('reports depth by model', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 1, queueTimeout: 0 });
+    const held = await queue.acquire('sonnet');
+    const waiting = queue.acquire('opus');
+
+    expect(queue.getDepth()).toEqual({
+      running: 1,
+      queued: 1,
+      byPriority: { interactive: 0, normal: 1, background: 0 },
+      byModel: { sonnet: { running: 1, queued: 0 }, opus: { running: 0, queued: 1 } },
+    });
+
+    held.release();
+    (await waiting).release();
+  });
+
+  test('release is idempotent', async () => {
+    const queue = new InvocationQueue({ maxConcurrency: 1, queueTimeout: 0 });
+    const slot = await queue.acquire('sonnet');
+    slot.release();
+    slot.release();
+    expect(queue.getDepth().running).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+import type { ClaudeModel, InvocationPriority, QueueDepth } from './types';
+import { ClaudeCodeCancelledError, ClaudeCodeQueueTimeoutError } from './errors';
+
+/** Lanes in scheduling order */
+const PRIORITIES: InvocationPriority[] = ['interactive', 'normal', 'background'];
+
+export interface QueueOptions {
+  /** Max CLI processes running at once across all models */
+  maxConcurrency: number;
+  /** Optional per-model caps (e.g., { opus: 1 }) */
+  maxConcurrencyPerModel?: Partial<Record<ClaudeModel, number>>;
+  /** Max time a call may wait for a slot in ms (0 = no limit) */
+  queueTimeout: number;
+}
+
+/**
+ * Acquired slot, call release() exactly once when the process has exited
+ */
+export interface QueueSlot {
+  release: () => void;
+  /** Time spent waiting in the queue (ms) */
+  waited: number;
+}
+
+interface Waiter {
+  model: ClaudeModel;
+  enqueuedAt: number;
+  resolve: (slot: QueueSlot) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Removes the abort listener */
+  unsubscribe?: () => void;
+}
+
+/**
+ * Concurrency limiter with priority lanes for CLI invocations.
+ * Interactive calls are started before normal and background ones; within a
+ * lane calls are FIFO. A call blocked by its model cap does not block calls
+ * for other models behind it.
+ */
+export class InvocationQueue {
+  private running = 0;
+  private runningByModel = new Map<ClaudeModel, number>();
+  private lanes: Record<InvocationPriority, Waiter[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+
+  constructor(private options: QueueOptions) {}
+
+  /**
+   * Wait for a slot. Rejects with ClaudeCodeQueueTimeoutError after
+   * queueTimeout, or ClaudeCodeCancelledError when signal aborts first.
+   */
+  acquire(
+    model: ClaudeModel,
+    priority: InvocationPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<QueueSlot> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ClaudeCodeCancelledError(signal.reason, { model }));
+        return;
+      }
+      const waiter: Waiter = { model, enqueuedAt: Date.now(), resolve, reject, timer: null };
+      const { queueTimeout } = this.options;
+      const leave = () => {
+        const lane = this.lanes[priority];
+        const index = lane.indexOf(waiter);
+        if (index !== -1) lane.splice(index, 1);
+        waiter.unsubscribe?.();
+        if (waiter.timer) clearTimeout(waiter.timer);
+      };
+
+      if (queueTimeout > 0) {
+        waiter.timer = setTimeout(() => {
+          leave();
+          reject(new ClaudeCodeQueueTimeoutError(queueTimeout, { model }));
+        }, queueTimeout);
+      }
+      if (signal) {
+        const onAbort = () => {
+          leave();
+          reject(new ClaudeCodeCancelledError(signal.reason, { model }));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.unsubscribe = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.lanes[priority].push(waiter);
+      this.drain();
+    });
+  }
+
+  getDepth(): QueueDepth {
+    const byModel: QueueDepth['byModel'] = {};
+    const entry = (model: string) => (byModel[model] ??= { running: 0, queued: 0 });
+
+    for (const [model, count] of this.runningByModel) {
+      if (count > 0) entry(model).running = count;
+    }
+    for (const priority of PRIORITIES) {
+      for (const waiter of this.lanes[priority]) entry(waiter.model).queued++;
+    }
+
+    return {
+      running: this.running,
+      queued: PRIORITIES.reduce((sum, p) => sum + this.lanes[p].length, 0),
+      byPriority: {
+        interactive: this.lanes.interactive.length,
+        normal: this.lanes.normal.length,
+        background: this.lanes.background.length,
+      },
+      byModel,
+    };
+  }
+
+  private canStart(model: ClaudeModel): boolean {
+    if (this.running >= this.options.maxConcurrency) return false;
+    const cap = this.options.maxConcurrencyPerModel?.[model];
+    return cap === undefined || (this.runningByModel.get(model) ?? 0) < cap;
+  }
+
+  private drain(): void {
+    for (const priority of PRIORITIES) {
+      const lane = this.lanes[priority];
+      for (let i = 0; i < lane.length && this.running < this.options.maxConcurrency; ) {
+        const waiter = lane[i];
+        if (!this.canStart(waiter.model)) {
+          i++;
+          continue;
+        }
+        lane.splice(i, 1);
+        this.start(waiter);
+      }
+    }
+  }
+
+  private start(waiter: Waiter): void {
+    if (waiter.timer) clearTimeout(waiter.timer);
+    waiter.unsubscribe?.();
+    this.running++;
+    this.runningByModel.set(waiter.model, (this.runningByModel.get(waiter.model) ?? 0) + 1);
+
+    let released = false;
+    waiter.resolve({
+      waited: Date.now() - waiter.enqueuedAt,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.running--;
+        this.runningByModel.set(waiter.model, (this.runningByModel.get(waiter.model) ?? 1) - 1);
+        this.drain();
+      },
+    });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for retry backoff and model fallback chain
+ *
+ * Test cases:
+ * - Exponential backoff capped at maxDelay
+ * - Jitter bounds
+ * - Reported reset time honoured (or rejected past maxDelay)
+ * - Fallback chain order
+ * - Retry wait ends early on abort
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_RETRY_POLICY, computeBackoff, delay, fallbackChain } from './retry';
+
+const policy = { maxRetries: 3, baseDelay: 1000, maxDelay: 10000, jitter: 0 };
+
+describe('computeBackoff', () => {
+  test('doubles delay per attempt', () => {
+    expect(computeBackoff(0, policy)).toBe(1000);
+    expect(computeBackoff(1, policy)).toBe(2000);
+    expect(computeBackoff(2, policy)).toBe(4000);
+  });
+
+  test('caps delay at maxDelay', () => {
+    expect(computeBackoff(10, policy)).toBe(10000);
+  });
+
+  test('applies jitter within bounds', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+    expect(computeBackoff(1, jittered, undefined, 0, () => 0)).toBe(1000);
+    expect(computeBackoff(1, jittered, undefined, 0, () => 1)).toBe(3000);
+    expect(computeBackoff(1, jittered, undefined, 0, () => 0.5)).toBe(2000);
+  });
+
+  test('waits until reset time', () => {
+    expect(computeBackoff(0, policy, 5000, 1000)).toBe(4000);
+    expect(computeBackoff(0, policy, 500, 1000)).toBe(0);
+  });
+
+  test('gives up when reset is beyond maxDelay', () => {
+    expect(computeBackoff(0, policy, 60000, 1000)).toBeNull();
+  });
+
+  test('has sane defaults', () => {
+    expect(DEFAULT_RETRY_POLICY.maxRetries).toBeGreaterThan(0);
+    expect(DEFAULT_RETRY_POLICY.jitter).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('fallbackChain', () => {
+  const chain = ['opus', 'sonnet', 'haiku'];
+
+  test('starts at requested model', () => {
+    expect(fallbackChain('opus', chain)).toEqual(['opus', 'sonnet', 'haiku']);
+    expect(fallbackChain('sonnet', chain)).toEqual(['sonnet', 'haiku']);
+    expect(fallbackChain('haiku', chain)).toEqual(['haiku']);
+  });
+
+  test('no fallback for models outside chain', () => {
+    expect(fallbackChain('opus', [])).toEqual(['opus']);
+    expect(fallbackChain('opus', ['sonnet', 'haiku'])).toEqual(['opus']);
+  });
+});
+
+describe('delay', () => {
+  test('resolves early when aborted', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 10);
+    await delay(5000, controller.signal);
+    expect(Date.now() - started).toBeLessThan(1000);
+    await delay(5000, controller.signal); // already aborted
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Retry policy for rate limit, overload and usage limit failures
+ */
+export interface RetryPolicy {
+  /** Max retries per model (0 disables retrying) */
+  maxRetries: number;
+  /** Delay before the first retry in ms, doubled on each attempt */
+  baseDelay: number;
+  /** Longest delay worth waiting in ms; longer reset times are not waited for */
+  maxDelay: number;
+  /** Jitter fraction (0-1) applied to exponential delays */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelay: 2000,
+  maxDelay: 60000,
+  jitter: 0.25,
+};
+
+/**
+ * Compute delay before retry number `attempt` (0-based).
+ *
+ * If the CLI reported a reset time, wait until then (ignoring jitter).
+ * Returns null when the wait would exceed policy.maxDelay, meaning the
+ * caller should give up (or fall back to another model) instead.
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  resetAt?: number,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): number | null {
+  if (resetAt !== undefined) {
+    const wait = Math.max(0, resetAt - now);
+    return wait <= policy.maxDelay ? wait : null;
+  }
+
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  const spread = exponential * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(Math.min(policy.maxDelay, exponential + spread)));
+}
+
+/**
+ * Models to try for a request: the requested model, then the rest of the
+ * fallback chain after it. Models not in the chain get no fallback.
+ */
+export function fallbackChain<T extends string>(model: T, chain: T[]): T[] {
+  const index = chain.indexOf(model);
+  return index === -1 ? [model] : chain.slice(index);
+}
+
+/**
+ * Wait ms milliseconds, resolving early when signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for process runners
+ *
+ * Test cases:
+ * - Settings parsing (executable, extraArgs, env)
+ * - Fake runner: scripted responses, chunks, hang until killed, replies to stdin lines
+ * - Bun runner against the stub executable: argv, env, exit code, large output
+ * - Bun runner piping stdin
+ * - terminate(): SIGTERM then SIGKILL, whole process group
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  BunProcessRunner,
+  FakeProcessRunner,
+  runnerConfigFromSettings,
+  terminate,
+} from './runner';
+import type { RunningProcess } from './runner';
+
+const STUB = join(import.meta.dir, 'claude-stub.ts');
+
+/** Whether pid is running; zombies nobody reaped yet count as gone */
+function running(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/^\d+ \(.*\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return true; // no /proc
+  }
+}
+
+async function collect(proc: RunningProcess) {
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  return { stdout, stderr, exitCode };
+}
+
+describe('runnerConfigFromSettings', () => {
+  test('reads executable, extraArgs and env', () => {
+    expect(
+      runnerConfigFromSettings({
+        executable: '/opt/claude',
+        extraArgs: ['--debug'],
+        env: { CLAUDE_CONFIG_DIR: '/tmp/cfg', DEPTH: 2 },
+      })
+    ).toEqual({
+      executable: '/opt/claude',
+      extraArgs: ['--debug'],
+      env: { CLAUDE_CONFIG_DIR: '/tmp/cfg', DEPTH: '2' },
+    });
+  });
+
+  test('maps configDir to CLAUDE_CONFIG_DIR', () => {
+    expect(runnerConfigFromSettings({ configDir: '/cfg' })).toEqual({
+      env: { CLAUDE_CONFIG_DIR: '/cfg' },
+    });
+    expect(
+      runnerConfigFromSettings({ configDir: '/cfg', env: { CLAUDE_CONFIG_DIR: '/other' } }).env
+    ).toEqual({ CLAUDE_CONFIG_DIR: '/other' });
+  });
+
+  test('ignores missing or invalid values', () => {
+    expect(runnerConfigFromSettings(undefined)).toEqual({});
+    expect(runnerConfigFromSettings({ executable: 3, extraArgs: '--debug' })).toEqual({});
+  });
+});
+
+describe('FakeProcessRunner', () => {
+  test('plays responses in order and records calls', async () => {
+    const runner = new FakeProcessRunner([
+      { stderr: 'rate limit', exitCode: 1 },
+      { stdout: ['he', 'llo'] },
+    ]);
+
+    expect(await collect(runner.spawn(['-p', 'a'], { cwd: '/tmp' }))).toEqual({
+      stdout: '',
+      stderr: 'rate limit',
+      exitCode: 1,
+    });
+    expect(await collect(runner.spawn(['-p', 'b'], { cwd: '/tmp' }))).toEqual({
+      stdout: 'hello',
+      stderr: '',
+      exitCode: 0,
+    });
+    // Last response repeats
+    expect((await collect(runner.spawn([], { cwd: '/tmp' }))).stdout).toBe('hello');
+    expect(runner.calls.map((c) => c.args)).toEqual([['-p', 'a'], ['-p', 'b'], []]);
+  });
+
+  test('hanging process exits when killed', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'partial', hang: true });
+    const proc = runner.spawn([], { cwd: '/tmp' });
+    setTimeout(() => proc.kill(), 10);
+
+    const { stdout, exitCode } = await collect(proc);
+    expect(stdout).toBe('partial');
+    expect(exitCode).toBe(143);
+    expect(runner.calls[0].killed).toBe(true);
+  });
+
+  test('terminate escalates to SIGKILL when SIGTERM is ignored', async () => {
+    const runner = new FakeProcessRunner({ hang: true, ignoreSigterm: true });
+    const proc = runner.spawn([], { cwd: '/tmp' });
+    await Bun.sleep(0);
+
+    await terminate(proc, 20);
+    expect(await proc.exited).toBe(137);
+    expect(runner.calls[0].signals).toEqual(['SIGTERM', 'SIGKILL']);
+  });
+
+  test('handler sees args and env', async () => {
+    const runner = new FakeProcessRunner((call) => ({ stdout: call.env.CLAUDE_CONFIG_DIR }));
+    const proc = runner.spawn([], { cwd: '/tmp', env: { CLAUDE_CONFIG_DIR: '/cfg' } });
+    expect((await collect(proc)).stdout).toBe('/cfg');
+  });
+
+  test('replies to stdin lines until stdin is closed', async () => {
+    const runner = new FakeProcessRunner({
+      stdout: 'ready\n',
+      onInput: (line) => `got ${line}\n`,
+    });
+    const proc = runner.spawn([], { cwd: '/tmp', stdin: true });
+    proc.stdin?.write('a\nb\n');
+    proc.stdin?.write('c\n');
+    proc.stdin?.end();
+
+    expect(await collect(proc)).toEqual({
+      stdout: 'ready\ngot a\ngot b\ngot c\n',
+      stderr: '',
+      exitCode: 0,
+    });
+    expect(runner.calls[0].stdin).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('BunProcessRunner with stub executable', () => {
+  test('passes extra args, env and cwd', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'claude-stub-test-'));
+    try {
+      const argsFile = join(dir, 'args.json');
+      const runner = new BunProcessRunner({
+        executable: STUB,
+        extraArgs: ['--debug'],
+        env: { CLAUDE_CONFIG_DIR: '/tmp/account-a', CLAUDE_STUB_ARGS_FILE: argsFile },
+      });
+
+      const result = await collect(runner.spawn(['-p', 'echo me'], { cwd: dir }));
+      expect(result).toEqual({ stdout: 'echo me', stderr: '', exitCode: 0 });
+
+      const recorded = JSON.parse(await readFile(argsFile, 'utf-8'));
+      expect(recorded.args).toEqual(['--debug', '-p', 'echo me']);
+      expect(recorded.configDir).toBe('/tmp/account-a');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports stderr and exit code', async () => {
+    const runner = new BunProcessRunner({
+      executable: STUB,
+      env: { CLAUDE_STUB_STDERR: 'Please run `claude login`', CLAUDE_STUB_EXIT: '1' },
+    });
+    const result = await collect(runner.spawn(['-p', 'x'], { cwd: tmpdir() }));
+    expect(result.stderr).toBe('Please run `claude login`');
+    expect(result.exitCode).toBe(1);
+  });
+
+  test('streams large output intact', async () => {
+    const runner = new BunProcessRunner({
+      executable: STUB,
+      env: { CLAUDE_STUB_STDOUT: 'x'.repeat(1024), CLAUDE_STUB_REPEAT: '2048' },
+    });
+    const result = await collect(runner.spawn([], { cwd: tmpdir() }));
+    expect(result.stdout.length).toBe(2 * 1024 * 1024);
+  });
+
+  test('terminate kills the whole process group', async () => {
+    // Shell and its background child both ignore SIGTERM
+    const runner = new BunProcessRunner({ executable: 'sh' });
+    const script = 'trap "" TERM; sleep 30 & echo $!; wait';
+    const proc = runner.spawn(['-c', script], { cwd: tmpdir() });
+    const reader = proc.stdout.getReader();
+    const child = Number(new TextDecoder().decode((await reader.read()).value).trim());
+    reader.releaseLock();
+    expect(running(child)).toBe(true);
+
+    await terminate(proc, 100);
+    await Bun.sleep(50);
+    expect(running(child)).toBe(false);
+  });
+
+  test('pipes stdin when requested', async () => {
+    const runner = new BunProcessRunner({ executable: 'cat' });
+    const proc = runner.spawn([], { cwd: tmpdir(), stdin: true });
+    proc.stdin?.write('line 1\n');
+    proc.stdin?.write('line 2\n');
+    proc.stdin?.end();
+    expect((await collect(proc)).stdout).toBe('line 1\nline 2\n');
+  });
+});
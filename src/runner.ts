@@ -0,0 +1,361 @@
+/**
+ * Process spawning behind an interface, so the CLI binary, its arguments and
+ * environment can be configured and tests can run without a real `claude`.
+ */
+
+import { ClaudeCodeCancelledError, ClaudeCodeTimeoutError } from './errors';
+
+const DEFAULT_EXECUTABLE = 'claude';
+/** Time a process group gets between SIGTERM and SIGKILL */
+export const DEFAULT_KILL_GRACE = 5000;
+
+/**
+ * Options for one spawned process
+ */
+export interface SpawnOptions {
+  /** Working directory */
+  cwd: string;
+  /** Extra environment variables for this process only */
+  env?: Record<string, string>;
+  /** Pipe stdin (e.g., for `--input-format stream-json`) */
+  stdin?: boolean;
+}
+
+/**
+ * Writable stdin of a running process
+ */
+export interface ProcessInput {
+  write(data: string): void;
+  /** Close stdin; the CLI exits after finishing pending input */
+  end(): void;
+}
+
+/**
+ * A running process with piped output
+ */
+export interface RunningProcess {
+  /** Only present when spawned with `stdin: true` */
+  stdin?: ProcessInput;
+  stdout: ReadableStream<Uint8Array>;
+  stderr: ReadableStream<Uint8Array>;
+  /** Resolves with the exit code once the process has exited */
+  exited: Promise<number>;
+  /** Exit code once the process has exited, null while it runs */
+  readonly exitCode: number | null;
+  /** Signal the process and the processes it started (SIGTERM by default) */
+  kill(signal?: NodeJS.Signals | number): void;
+}
+
+/**
+ * Spawns the CLI. `args` never include the executable itself.
+ */
+export interface ProcessRunner {
+  spawn(args: string[], options: SpawnOptions): RunningProcess;
+}
+
+/**
+ * Executable, extra arguments and environment for the CLI
+ */
+export interface RunnerConfig {
+  /** Path or name of the CLI executable (defaults to 'claude') */
+  executable?: string;
+  /** Arguments inserted before the invocation arguments */
+  extraArgs?: string[];
+  /** Environment variables added to every process (e.g., CLAUDE_CONFIG_DIR) */
+  env?: Record<string, string>;
+}
+
+/**
+ * Read runner settings (`executable`, `extraArgs`, `env`) from `claudeCode`
+ * settings. `configDir` becomes CLAUDE_CONFIG_DIR unless `env` sets it.
+ */
+export function runnerConfigFromSettings(settings?: Record<string, unknown>): RunnerConfig {
+  const config: RunnerConfig = {};
+  if (typeof settings?.executable === 'string' && settings.executable) {
+    config.executable = settings.executable;
+  }
+  if (Array.isArray(settings?.extraArgs)) {
+    config.extraArgs = settings.extraArgs.map(String);
+  }
+  if (settings?.env && typeof settings.env === 'object') {
+    config.env = Object.fromEntries(
+      Object.entries(settings.env as Record<string, unknown>).map(([k, v]) => [k, String(v)])
+    );
+  }
+  if (typeof settings?.configDir === 'string' && settings.configDir) {
+    config.env = { CLAUDE_CONFIG_DIR: settings.configDir, ...config.env };
+  }
+  return config;
+}
+
+/**
+ * Default runner: Bun.spawn with stdout and stderr piped
+ */
+export class BunProcessRunner implements ProcessRunner {
+  private executable: string;
+  private extraArgs: string[];
+  private env: Record<string, string>;
+
+  constructor(config: RunnerConfig = {}) {
+    this.executable = config.executable || DEFAULT_EXECUTABLE;
+    this.extraArgs = config.extraArgs ?? [];
+    this.env = config.env ?? {};
+  }
+
+  spawn(args: string[], options: SpawnOptions): RunningProcess {
+    const proc = Bun.spawn([this.executable, ...this.extraArgs, ...args], {
+      cwd: options.cwd,
+      env: { ...process.env, ...this.env, ...options.env },
+      stdin: options.stdin ? 'pipe' : 'ignore',
+      stdout: 'pipe',
+      stderr: 'pipe',
+      // Own process group, so tools the CLI started (Bash etc.) can be killed with it
+      detached: true,
+    });
+    const stdin = proc.stdin;
+    // A CLI that exits before reading its input (e.g., on a bad token) closes
+    // the pipe; its exit code and stderr tell why, so EPIPE is not an error
+    const ignoreClosed = (write: () => unknown) => {
+      try {
+        Promise.resolve(write()).catch(() => {});
+      } catch {
+        // Pipe already closed
+      }
+    };
+    return {
+      stdin: stdin
+        ? {
+            write: (data) => {
+              ignoreClosed(() => stdin.write(data));
+              ignoreClosed(() => stdin.flush());
+            },
+            end: () => ignoreClosed(() => stdin.end()),
+          }
+        : undefined,
+      stdout: proc.stdout,
+      stderr: proc.stderr,
+      exited: proc.exited,
+      get exitCode() {
+        return proc.exitCode;
+      },
+      kill: (signal = 'SIGTERM') => {
+        try {
+          process.kill(-proc.pid, signal);
+        } catch {
+          proc.kill(signal); // group already gone
+        }
+      },
+    };
+  }
+}
+
+/**
+ * Timeout or cancel error with the stopped process's stderr and run time
+ */
+export function stoppedError(error: unknown, stderr: string, duration: number): unknown {
+  if (!(error instanceof ClaudeCodeTimeoutError || error instanceof ClaudeCodeCancelledError)) {
+    return error;
+  }
+  const details = { model: error.model, stderr: stderr.trim(), duration };
+  return error instanceof ClaudeCodeTimeoutError
+    ? new ClaudeCodeTimeoutError(error.timeout, details)
+    : new ClaudeCodeCancelledError(error.reason, details);
+}
+
+/**
+ * Stop a process and everything it started: SIGTERM to the group, then
+ * SIGKILL once the CLI has exited or after `grace` ms, for children that
+ * ignore SIGTERM or outlive it. Resolves when the CLI has exited.
+ */
+export async function terminate(
+  proc: RunningProcess,
+  grace: number = DEFAULT_KILL_GRACE
+): Promise<void> {
+  const signal = (name: NodeJS.Signals) => {
+    try {
+      proc.kill(name);
+    } catch {
+      // Process already exited
+    }
+  };
+  signal('SIGTERM');
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const exited = await Promise.race([
+    proc.exited.then(
+      () => true,
+      () => true
+    ),
+    new Promise<boolean>((r) => (timer = setTimeout(() => r(false), grace))),
+  ]);
+  if (timer) clearTimeout(timer);
+  signal('SIGKILL');
+  if (!exited) await proc.exited.catch(() => {});
+}
+
+/**
+ * Scripted reply of the fake runner
+ */
+export interface FakeResponse {
+  /** Text written to stdout; an array is written chunk by chunk */
+  stdout?: string | string[];
+  stderr?: string;
+  /** Exit code (defaults to 0) */
+  exitCode?: number;
+  /** Milliseconds to wait before writing output and exiting */
+  delay?: number;
+  /** Never exit on its own (until killed) */
+  hang?: boolean;
+  /** Keep running on SIGTERM (only SIGKILL stops it) */
+  ignoreSigterm?: boolean;
+  /**
+   * Reply to each stdin line (processes spawned with `stdin: true`). The
+   * process then runs until stdin is closed or it is killed; throwing
+   * crashes it.
+   */
+  onInput?: (line: string, call: FakeCall) => string | string[] | undefined;
+}
+
+/**
+ * A process spawned by the fake runner
+ */
+export interface FakeCall {
+  args: string[];
+  cwd: string;
+  env: Record<string, string>;
+  killed: boolean;
+  /** Signals sent, in order */
+  signals: string[];
+  /** Lines written to stdin */
+  stdin: string[];
+}
+
+export type FakeHandler = (call: FakeCall) => FakeResponse | Promise<FakeResponse>;
+
+/**
+ * Exit code reported for a killed fake process (128 + signal number)
+ */
+const KILLED_EXIT_CODES: Record<string, number> = { SIGTERM: 143, SIGKILL: 137 };
+
+/**
+ * In-memory runner for tests. Replies come from a handler, a single
+ * response, or a list of responses used in order (the last one repeats).
+ * Every spawn is recorded in `calls`.
+ */
+export class FakeProcessRunner implements ProcessRunner {
+  readonly calls: FakeCall[] = [];
+  private script: FakeHandler | FakeResponse[];
+
+  constructor(script: FakeHandler | FakeResponse | FakeResponse[] = {}) {
+    this.script =
+      typeof script === 'function' ? script : Array.isArray(script) ? [...script] : [script];
+  }
+
+  spawn(args: string[], options: SpawnOptions): RunningProcess {
+    const call: FakeCall = {
+      args,
+      cwd: options.cwd,
+      env: options.env ?? {},
+      killed: false,
+      signals: [],
+      stdin: [],
+    };
+    this.calls.push(call);
+    let current: FakeResponse | null = null;
+    const response = Promise.resolve(this.next(call)).then((reply) => (current = reply));
+
+    const encoder = new TextEncoder();
+    let stdoutCtl!: ReadableStreamDefaultController<Uint8Array>;
+    let stderrCtl!: ReadableStreamDefaultController<Uint8Array>;
+    const stdout = new ReadableStream<Uint8Array>({ start: (c) => void (stdoutCtl = c) });
+    const stderr = new ReadableStream<Uint8Array>({ start: (c) => void (stderrCtl = c) });
+
+    let resolveExit!: (code: number) => void;
+    const exited = new Promise<number>((r) => (resolveExit = r));
+    let exitCode: number | null = null;
+    let done = false;
+
+    const finish = (code: number) => {
+      if (done) return;
+      done = true;
+      exitCode = code;
+      for (const ctl of [stdoutCtl, stderrCtl]) {
+        try {
+          ctl.close();
+        } catch {
+          // Already closed
+        }
+      }
+      resolveExit(code);
+    };
+
+    const write = async (output: string | string[]) => {
+      for (const chunk of Array.isArray(output) ? output : [output]) {
+        if (done) return;
+        if (chunk) stdoutCtl.enqueue(encoder.encode(chunk));
+        await Bun.sleep(0);
+      }
+    };
+
+    // Input is handled in order, after the initial output
+    let input = (async () => {
+      const reply = await response;
+      if (reply.delay) await Bun.sleep(reply.delay);
+      await write(reply.stdout ?? '');
+      if (done) return;
+      if (reply.stderr) stderrCtl.enqueue(encoder.encode(reply.stderr));
+      if (!reply.hang && !reply.onInput) finish(reply.exitCode ?? 0);
+    })();
+    // Like a crash: a throwing handler prints the error and exits with 1
+    const crash = (error: unknown) => {
+      if (done) return;
+      stderrCtl.enqueue(encoder.encode(String(error)));
+      finish(1);
+    };
+    input.catch(crash);
+
+    const stdin: ProcessInput | undefined = options.stdin
+      ? {
+          write: (data) => {
+            const lines = data.split('\n').filter((l) => l.length > 0);
+            call.stdin.push(...lines);
+            input = input.then(async () => {
+              const reply = await response;
+              for (const line of lines) {
+                const output = reply.onInput?.(line, call);
+                if (output !== undefined) await write(output);
+              }
+            });
+            input.catch(crash);
+          },
+          end: () => {
+            // Only interactive fakes wait for stdin; others exit on their own
+            input = input.then(async () => {
+              const reply = await response;
+              if (reply.onInput) finish(reply.exitCode ?? 0);
+            });
+          },
+        }
+      : undefined;
+
+    return {
+      stdin,
+      stdout,
+      stderr,
+      exited,
+      get exitCode() {
+        return exitCode;
+      },
+      kill: (signal = 'SIGTERM') => {
+        call.signals.push(String(signal));
+        if (done || (signal === 'SIGTERM' && current?.ignoreSigterm)) return;
+        call.killed = true;
+        finish(KILLED_EXIT_CODES[String(signal)] ?? 128);
+      },
+    };
+  }
+
+  private async next(call: FakeCall): Promise<FakeResponse> {
+    if (typeof this.script === 'function') return this.script(call);
+    return this.script.length > 1 ? this.script.shift()! : (this.script[0] ?? {});
+  }
+}
@@ -0,0 +1,32 @@
+#!/usr/bin/env bun
+/**
+ * Standalone OpenAI-compatible server, for tools that are not ElizaOS agents:
+ *
+ *   CLAUDE_CODE_SERVER_TOKEN=secret bun src/serve.ts [settings.json]
+ *
+ * settings.json holds a `claudeCode` settings object (timeout, truncation,
+ * maxConcurrency, server, ...). The server is enabled even if it has no
+ * `server` entry.
+ */
+
+import type { IAgentRuntime } from '@elizaos/core';
+import { readFile } from 'node:fs/promises';
+
+import { ClaudeCodeService } from './service';
+
+const path = process.argv[2];
+const settings = path ? JSON.parse(await readFile(path, 'utf-8')) : {};
+settings.server ??= true;
+
+const runtime = {
+  agentId: 'serve',
+  character: { settings: { claudeCode: settings } },
+} as unknown as IAgentRuntime;
+const service = await ClaudeCodeService.start(runtime);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    await service.stop();
+    process.exit(0);
+  });
+}
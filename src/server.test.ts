@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the OpenAI-compatible server
+ *
+ * Test cases:
+ * - Settings parsing: token from settings or env, refuses to start without one
+ * - Model names mapped to CLI aliases
+ * - Chat messages split into system prompt and conversation
+ * - Bearer token required
+ * - /v1/models lists aliases
+ * - Chat completion through invoke, with usage and error statuses
+ * - SSE streaming through invokeStream, ending with [DONE]; a chat history
+ *   streams only the answer to its last turn
+ * - Listens on 127.0.0.1
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { ClaudeCodeConfigError } from './errors';
+import { FakeProcessRunner } from './runner';
+import type { FakeResponse } from './runner';
+import { ChatServer, chatMessages, resolveModel, serverConfigFromSettings } from './server';
+import { ClaudeCodeService } from './service';
+
+const TOKEN = 'secret';
+
+/** Result line of a CLI run with stream-json output */
+const envelope = JSON.stringify({
+  type: 'result',
+  subtype: 'success',
+  result: 'Hello',
+  usage: { input_tokens: 10, output_tokens: 3, cache_read_input_tokens: 5 },
+});
+
+function server(responses: FakeResponse | FakeResponse[] = { stdout: envelope }) {
+  const runner = new FakeProcessRunner(responses);
+  const service = new ClaudeCodeService(undefined, runner);
+  return {
+    runner,
+    server: new ChatServer(service, { port: 0, token: TOKEN, models: { 'gpt-4o': 'opus' } }),
+  };
+}
+
+function post(body: unknown, token = TOKEN): Request {
+  return new Request('http://127.0.0.1/v1/chat/completions', {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('serverConfigFromSettings', () => {
+  test('reads the token from settings or env', () => {
+    expect(serverConfigFromSettings(undefined)).toBeNull();
+    expect(serverConfigFromSettings({ enabled: false })).toBeNull();
+    expect(serverConfigFromSettings(true, { CLAUDE_CODE_SERVER_TOKEN: 'env' })).toEqual({
+      port: 8765,
+      token: 'env',
+      models: {},
+    });
+    const settings = { token: 't', port: 9000, models: { x: 'haiku' } };
+    expect(serverConfigFromSettings(settings, {})).toEqual({
+      port: 9000,
+      token: 't',
+      models: { x: 'haiku' },
+    });
+  });
+
+  test('refuses to start without a token or with bad model mappings', () => {
+    expect(() => serverConfigFromSettings(true, {})).toThrow(ClaudeCodeConfigError);
+    expect(() => serverConfigFromSettings({ token: 't', models: { x: 'gpt-4' } }, {})).toThrow(
+      ClaudeCodeConfigError
+    );
+  });
+});
+
+describe('resolveModel', () => {
+  test('maps names to CLI aliases', () => {
+    expect(resolveModel(undefined)).toBe('sonnet');
+    expect(resolveModel('opus')).toBe('opus');
+    expect(resolveModel('claude-3-5-haiku-latest')).toBe('haiku');
+    expect(resolveModel('gpt-4o', { 'gpt-4o': 'sonnet' })).toBe('sonnet');
+    expect(resolveModel('gpt-4o')).toBeNull();
+  });
+});
+
+describe('chatMessages', () => {
+  test('splits off the system prompt', () => {
+    expect(
+      chatMessages([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+      ])
+    ).toEqual({ messages: [{ role: 'user', content: 'hi' }], systemPrompt: 'Be brief.' });
+  });
+
+  test('keeps conversation turns apart', () => {
+    expect(
+      chatMessages([
+        { role: 'user', content: 'weather?' },
+        { role: 'assistant', content: null },
+        { role: 'tool', content: 'sunny' },
+      ])
+    ).toEqual({
+      messages: [
+        { role: 'user', content: 'weather?' },
+        { role: 'assistant', content: '' },
+        { role: 'user', content: 'Tool result: sunny' },
+      ],
+    });
+  });
+});
+
+describe('ChatServer', () => {
+  test('requires the bearer token', async () => {
+    const { server: s, runner } = server();
+    const response = await s.handle(post({ messages: [{ role: 'user', content: 'hi' }] }, 'x'));
+    expect(response.status).toBe(401);
+    expect(runner.calls).toHaveLength(0);
+  });
+
+  test('lists models', async () => {
+    const { server: s } = server();
+    const request = new Request('http://127.0.0.1/v1/models', {
+      headers: { authorization: `Bearer ${TOKEN}` },
+    });
+    const body = await (await s.handle(request)).json();
+    const ids = body.data.map((m: { id: string }) => m.id);
+    expect(ids).toEqual(['sonnet', 'opus', 'haiku', 'gpt-4o']);
+  });
+
+  test('answers chat completions through invoke', async () => {
+    const { server: s, runner } = server();
+    const response = await s.handle(
+      post({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'hi' },
+        ],
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      object: 'chat.completion',
+      model: 'gpt-4o',
+      choices: [{ message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 15, completion_tokens: 3, total_tokens: 18 },
+    });
+    expect(runner.calls[0].args).toEqual([
+      '-p',
+      '--model',
+      'opus',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+      '--input-format',
+      'stream-json',
+      '--append-system-prompt',
+      'Be brief.',
+    ]);
+    expect(JSON.parse(runner.calls[0].stdin[0]).message.content).toEqual([
+      { type: 'text', text: 'hi' },
+    ]);
+  });
+
+  test('maps failures to HTTP errors', async () => {
+    const limit = 'Claude AI usage limit reached|1735689600';
+    const { server: s } = server({ stderr: limit, exitCode: 1 });
+    const messages = [{ role: 'user', content: 'hi' }];
+    const response = await s.handle(post({ messages }));
+    expect(response.status).toBe(429);
+    expect((await response.json()).error.code).toBe('usage_limit');
+
+    const bad = await s.handle(post({ messages: [] }));
+    expect(bad.status).toBe(400);
+    const unknown = await s.handle(post({ model: 'gpt-5', messages }));
+    expect(unknown.status).toBe(404);
+  });
+
+  test('streams server-sent events', async () => {
+    const delta = (text: string) => ({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+    });
+    const result = { type: 'result', subtype: 'success', result: 'Hello' };
+    const lines = [delta('Hel'), delta('lo'), result];
+    const { server: s } = server({ stdout: lines.map((l) => `${JSON.stringify(l)}\n`).join('') });
+    const messages = [{ role: 'user', content: 'hi' }];
+    const response = await s.handle(post({ stream: true, messages }));
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const events = (await response.text()).trim().split('\n\n');
+    expect(events.at(-1)).toBe('data: [DONE]');
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e.slice('data: '.length)));
+    expect(chunks.map((c) => c.choices[0].delta)).toEqual([
+      { role: 'assistant', content: '' },
+      { content: 'Hel' },
+      { content: 'lo' },
+      {},
+    ]);
+    expect(chunks.at(-1).choices[0].finish_reason).toBe('stop');
+  });
+
+  test('streams only the answer to the last turn of a chat', async () => {
+    const runs: string[] = [];
+    const answer = (line: string) => {
+      const blocks: { text: string }[] = JSON.parse(line).message.content;
+      const text = `answer to ${blocks.at(-1)?.text}`;
+      runs.push(text);
+      const delta = { type: 'content_block_delta', delta: { type: 'text_delta', text } };
+      return [
+        JSON.stringify({ type: 'stream_event', event: delta }),
+        JSON.stringify({ type: 'result', subtype: 'success', result: text }),
+        '',
+      ].join('\n');
+    };
+    const { server: s } = server({ onInput: answer });
+    const messages = [
+      { role: 'user', content: 'q1' },
+      { role: 'assistant', content: 'a1' },
+      { role: 'user', content: 'q2' },
+    ];
+    const response = await s.handle(post({ stream: true, messages }));
+
+    const events = (await response.text()).trim().split('\n\n').slice(0, -1);
+    const deltas = events.map((e) => JSON.parse(e.slice('data: '.length)).choices[0].delta);
+    expect(deltas.filter((d) => d.content).map((d) => d.content)).toEqual([
+      'answer to User: q2',
+    ]);
+    expect(runs).toEqual(['answer to User: q2']);
+  });
+
+  test('listens on 127.0.0.1', async () => {
+    const { server: s } = server();
+    const port = s.start();
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/v1/chat/completions`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ messages: [{ role: 'user', content: 'hi' }] }),
+      });
+      expect((await response.json()).choices[0].message.content).toBe('Hello');
+    } finally {
+      await s.stop();
+    }
+  });
+});
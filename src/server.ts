@@ -0,0 +1,326 @@
+import { logger } from '@elizaos/core';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { ClaudeCodeConfigError } from './errors';
+import type { ClaudeCodeService } from './service';
+import type {
+  ChatServerConfig,
+  ClaudeInvokeResult,
+  ClaudeInvokeStatus,
+  ClaudeMessage,
+  ClaudeModel,
+  ClaudeUsage,
+} from './types';
+
+export const DEFAULT_SERVER_PORT = 8765;
+
+const CLI_MODELS: ClaudeModel[] = ['sonnet', 'opus', 'haiku'];
+
+/**
+ * Service methods the server calls
+ */
+export type ChatBackend = Pick<ClaudeCodeService, 'invoke' | 'invokeStream'>;
+
+/**
+ * OpenAI chat message; only text content parts are supported
+ */
+export interface ChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+  content: string | { type: string; text?: string }[] | null;
+}
+
+/**
+ * Body of POST /v1/chat/completions (sampling parameters are ignored)
+ */
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: ChatMessage[];
+  stream?: boolean;
+}
+
+/**
+ * Client mistake, answered with 400
+ */
+class RequestError extends Error {}
+
+/**
+ * HTTP status per invoke status
+ */
+const HTTP_STATUS: Record<Exclude<ClaudeInvokeStatus, 'success'>, number> = {
+  exit_error: 502,
+  timeout: 504,
+  cancelled: 499,
+  queue_timeout: 503,
+  auth_error: 503,
+  usage_limit: 429,
+  spawn_error: 500,
+  config_error: 400,
+};
+
+/**
+ * Read `claudeCode.server` (true or an object). Returns null when the server
+ * is not configured or `enabled: false`. The token comes from `token` or
+ * CLAUDE_CODE_SERVER_TOKEN; without one the server refuses to start.
+ */
+export function serverConfigFromSettings(
+  settings: unknown,
+  env: Record<string, string | undefined> = process.env
+): ChatServerConfig | null {
+  if (settings !== true && (!settings || typeof settings !== 'object')) return null;
+  const s = settings === true ? {} : (settings as Record<string, unknown>);
+  if (s.enabled === false) return null;
+
+  const token = typeof s.token === 'string' && s.token ? s.token : env.CLAUDE_CODE_SERVER_TOKEN;
+  if (!token) {
+    throw new ClaudeCodeConfigError(
+      'server needs a token (server.token or CLAUDE_CODE_SERVER_TOKEN)'
+    );
+  }
+  const models = (s.models ?? {}) as Record<string, unknown>;
+  for (const [name, model] of Object.entries(models)) {
+    if (!CLI_MODELS.includes(model as ClaudeModel)) {
+      throw new ClaudeCodeConfigError(`server model '${name}' must map to sonnet, opus or haiku`);
+    }
+  }
+  return {
+    port: typeof s.port === 'number' && s.port >= 0 ? s.port : DEFAULT_SERVER_PORT,
+    token,
+    models: models as Record<string, ClaudeModel>,
+  };
+}
+
+/**
+ * Map a requested model name to a CLI alias: configured names first, then
+ * the aliases themselves and Anthropic model ids containing one (e.g.,
+ * `claude-3-5-haiku-latest`). Missing means sonnet; unknown names give null.
+ */
+export function resolveModel(
+  name: string | undefined,
+  models: Record<string, ClaudeModel> = {}
+): ClaudeModel | null {
+  if (!name) return 'sonnet';
+  if (Object.hasOwn(models, name)) return models[name];
+  const lower = name.toLowerCase();
+  return CLI_MODELS.find((model) => lower === model || lower.includes(model)) ?? null;
+}
+
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return (message.content ?? [])
+    .map((part) => {
+      if (part.type !== 'text') throw new RequestError(`unsupported content part '${part.type}'`);
+      return part.text ?? '';
+    })
+    .join('');
+}
+
+/**
+ * Split chat messages into a system prompt (system and developer messages)
+ * and the conversation passed to invoke as `messages`. Tool results are
+ * passed as user messages.
+ */
+export function chatMessages(messages: ChatMessage[]): {
+  messages: ClaudeMessage[];
+  systemPrompt?: string;
+} {
+  const system = messages.filter((m) => m.role === 'system' || m.role === 'developer');
+  const systemPrompt = system.map(messageText).join('\n\n') || undefined;
+  const turns = messages
+    .filter((m) => !system.includes(m))
+    .map((m): ClaudeMessage => {
+      const text = messageText(m);
+      if (m.role === 'assistant') return { role: 'assistant', content: text };
+      return { role: 'user', content: m.role === 'tool' ? `Tool result: ${text}` : text };
+    });
+  if (turns.length === 0) throw new RequestError('messages must include a user message');
+  return { messages: turns, systemPrompt };
+}
+
+function usageOf(usage?: ClaudeUsage) {
+  if (!usage) return undefined;
+  const promptTokens =
+    usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: promptTokens + usage.outputTokens,
+  };
+}
+
+function errorResponse(status: number, message: string, code: string): Response {
+  const type = status >= 500 ? 'server_error' : 'invalid_request_error';
+  return Response.json({ error: { message, type, code } }, { status });
+}
+
+function failureResponse(result: ClaudeInvokeResult): Response {
+  const status = result.status as Exclude<ClaudeInvokeStatus, 'success'>;
+  const message = result.error?.message ?? (result.stderr || status);
+  return errorResponse(HTTP_STATUS[status], message, status);
+}
+
+/**
+ * Local HTTP server speaking the OpenAI chat completions API, so tools that
+ * are not ElizaOS agents can use the CLI too. Binds to 127.0.0.1 and requires
+ * `Authorization: Bearer <token>`. Requests go through invoke/invokeStream,
+ * with the service's queue, timeout and truncation settings.
+ */
+export class ChatServer {
+  private server: ReturnType<typeof Bun.serve> | null = null;
+
+  constructor(
+    private backend: ChatBackend,
+    readonly config: ChatServerConfig
+  ) {}
+
+  /**
+   * Start listening. Returns the port (useful with port 0).
+   */
+  start(): number {
+    if (!this.server) {
+      this.server = Bun.serve({
+        hostname: '127.0.0.1',
+        port: this.config.port,
+        idleTimeout: 0, // CLI calls can stay silent for minutes
+        fetch: (request) => this.handle(request),
+      });
+      const url = `http://127.0.0.1:${this.server.port}/v1`;
+      logger.info(`[claude-code] OpenAI-compatible server listening on ${url}`);
+    }
+    return this.server.port as number;
+  }
+
+  async stop(): Promise<void> {
+    await this.server?.stop(true);
+    this.server = null;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (!this.authorized(request)) {
+      return errorResponse(401, 'invalid or missing bearer token', 'invalid_api_key');
+    }
+    const { pathname } = new URL(request.url);
+    try {
+      if (pathname === '/v1/models' && request.method === 'GET') {
+        return this.models();
+      }
+      if (pathname === '/v1/chat/completions' && request.method === 'POST') {
+        return await this.completions(request);
+      }
+      return errorResponse(404, `no route for ${request.method} ${pathname}`, 'not_found');
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse(400, error.message, 'invalid_request');
+      }
+      logger.error(`[claude-code] server request failed: ${error}`);
+      return errorResponse(500, String(error), 'internal_error');
+    }
+  }
+
+  private authorized(request: Request): boolean {
+    const header = request.headers.get('authorization') ?? '';
+    const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(this.config.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private models(): Response {
+    const ids = [...CLI_MODELS, ...Object.keys(this.config.models)];
+    return Response.json({
+      object: 'list',
+      data: ids.map((id) => ({ id, object: 'model', created: 0, owned_by: 'anthropic' })),
+    });
+  }
+
+  private async completions(request: Request): Promise<Response> {
+    let body: ChatCompletionRequest;
+    try {
+      body = (await request.json()) as ChatCompletionRequest;
+    } catch {
+      throw new RequestError('body must be JSON');
+    }
+    if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+      throw new RequestError('messages must be a non-empty array');
+    }
+    const model = resolveModel(body.model, this.config.models);
+    if (!model) {
+      return errorResponse(404, `model '${body.model}' does not exist`, 'model_not_found');
+    }
+
+    const options = { ...chatMessages(body.messages), model, signal: request.signal };
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const name = body.model ?? model;
+    if (body.stream) return this.stream(options, { id, created, model: name });
+
+    const result = await this.backend.invoke(options);
+    if (result.status !== 'success') return failureResponse(result);
+    return Response.json({
+      id,
+      object: 'chat.completion',
+      created,
+      model: name,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: result.output },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: usageOf(result.usage),
+    });
+  }
+
+  /**
+   * Server-sent events in the OpenAI chunk format, ending with `[DONE]`.
+   * A failure after the first byte is sent as an `error` event.
+   */
+  private stream(
+    options: Parameters<ChatBackend['invokeStream']>[0],
+    chunk: { id: string; created: number; model: string }
+  ): Response {
+    const abort = new AbortController();
+    const signal = options.signal ? AbortSignal.any([options.signal, abort.signal]) : abort.signal;
+    const events = this.backend.invokeStream({ ...options, signal });
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (data: unknown) =>
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        const delta = (value: Record<string, unknown>, finish: string | null = null) =>
+          send({
+            ...chunk,
+            object: 'chat.completion.chunk',
+            choices: [{ index: 0, delta: value, finish_reason: finish }],
+          });
+
+        delta({ role: 'assistant', content: '' });
+        for await (const event of events) {
+          if (event.type === 'text') {
+            delta({ content: event.text });
+          } else if (event.type === 'result') {
+            const { result } = event;
+            if (result.status === 'success') {
+              delta({}, 'stop');
+            } else {
+              const message = result.error?.message ?? (result.stderr || result.status);
+              send({ error: { message, type: 'server_error', code: result.status } });
+            }
+          }
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+    return new Response(body, {
+      headers: {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+      },
+    });
+  }
+}
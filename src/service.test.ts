@@ -0,0 +1,553 @@
+/**
+ * Offline tests for ClaudeCodeService and the direct provider path
+ *
+ * Test cases:
+ * - Args passed to the runner, prompt or messages on stdin, temp workspace cleanup
+ * - JSON envelope parsing
+ * - A multi-turn history is one user turn: one model run, one answer
+ * - Expired sessions replaced and their workspace removed; no sessionKey
+ *   for streams
+ * - Timeout kills the process (fake runner and stub executable), keeping
+ *   stderr and duration on the error
+ * - AbortSignal cancels running calls and streams, or skips spawning when already aborted
+ * - Auth failure (and auth lost event), empty output, large output
+ * - Metrics recorded per invocation
+ * - MCP config file passed in strict mode and removed afterwards
+ * - Workspace changes captured in an isolated copy
+ * - Permission profiles expanded into tool lists and permission mode
+ * - System prompt flags; only the user prompt is truncated
+ * - Image staged into the temp workspace for describeImage
+ * - Streaming through the runner; no fallback after chunks were streamed
+ * - Provider fallback uses the runner too
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClaudeCodeService } from './service';
+import { ClaudeCodeModelProvider } from './provider';
+import { SessionManager } from './session';
+import { BunProcessRunner, FakeProcessRunner } from './runner';
+import {
+  ClaudeCodeAuthError,
+  ClaudeCodeCancelledError,
+  ClaudeCodeConfigError,
+  ClaudeCodeEmptyOutputError,
+  ClaudeCodeTimeoutError,
+  ClaudeCodeUsageLimitError,
+} from './errors';
+import { ClaudeCodeEventType } from './types';
+
+const STUB = join(import.meta.dir, 'claude-stub.ts');
+
+describe('ClaudeCodeService with fake runner', () => {
+  test('passes args and cleans up the temp workspace', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'Hello\n' });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({
+      prompt: 'hi',
+      model: 'haiku',
+      allowedTools: ['Read', 'Grep'],
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.output).toBe('Hello');
+    expect(runner.calls[0].args).toEqual([
+      '-p',
+      '--model',
+      'haiku',
+      '--allowedTools',
+      'Read,Grep',
+    ]);
+    expect(runner.calls[0].stdin).toEqual(['hi']);
+    expect(existsSync(runner.calls[0].cwd)).toBe(false);
+  });
+
+  test('sends messages as a stream-json user turn', async () => {
+    const lines = [
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'Fine.' }] } },
+      { type: 'result', subtype: 'success', result: 'Fine.', session_id: 's-1' },
+    ];
+    const stdout = lines.map((l) => JSON.stringify(l)).join('\n');
+    const runner = new FakeProcessRunner({ stdout });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({
+      model: 'haiku',
+      messages: [
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' },
+        { role: 'user', content: 'how are you?' },
+      ],
+    });
+    expect(result).toMatchObject({ status: 'success', output: 'Fine.', sessionId: 's-1' });
+    expect(runner.calls[0].args).toEqual([
+      '-p',
+      '--model',
+      'haiku',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+      '--input-format',
+      'stream-json',
+    ]);
+    expect(JSON.parse(runner.calls[0].stdin[0]).message.content).toEqual([
+      { type: 'text', text: 'User: hi' },
+      { type: 'text', text: 'Assistant: hello' },
+      { type: 'text', text: 'User: how are you?' },
+    ]);
+
+    expect((await service.invoke({})).status).toBe('config_error');
+  });
+
+  test('answers a multi-turn history with one model run', async () => {
+    // Like the CLI: every stream-json user line read from stdin is one model turn
+    const answer = (line: string) => {
+      const blocks: { text: string }[] = JSON.parse(line).message.content;
+      const text = `answer to ${blocks.at(-1)?.text}`;
+      const delta = { type: 'content_block_delta', delta: { type: 'text_delta', text } };
+      return [
+        JSON.stringify({ type: 'stream_event', event: delta }),
+        JSON.stringify({ type: 'result', subtype: 'success', result: text }),
+        '',
+      ].join('\n');
+    };
+    const runner = new FakeProcessRunner({ onInput: answer });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const texts: string[] = [];
+    const results = [];
+    const messages = [
+      { role: 'user' as const, content: 'q1' },
+      { role: 'assistant' as const, content: 'a1' },
+      { role: 'user' as const, content: 'q2' },
+    ];
+    for await (const event of service.invokeStream({ messages })) {
+      if (event.type === 'text') texts.push(event.text);
+      if (event.type === 'result') results.push(event.result);
+    }
+    expect(texts).toEqual(['answer to User: q2']);
+    expect(results).toMatchObject([{ status: 'success', output: 'answer to User: q2' }]);
+    expect(runner.calls).toHaveLength(1);
+    expect(runner.calls[0].stdin).toHaveLength(1);
+  });
+
+  test('replaces an expired session and removes its workspace', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'claude-code-session-test-'));
+    const envelope = { type: 'result', subtype: 'success', result: 'Hi', session_id: 's-1' };
+    const runner = new FakeProcessRunner({ stdout: JSON.stringify(envelope) });
+    const service = new ClaudeCodeService(undefined, runner);
+    const sessions = new SessionManager(join(dir, 'sessions.json'), 50);
+    Object.assign(service, { sessions });
+
+    expect((await service.invoke({ prompt: 'hi', sessionKey: 'room-1' })).status).toBe('success');
+    const first = sessions.get('room-1')!.workspace;
+    expect(existsSync(first)).toBe(true);
+
+    await Bun.sleep(60); // expired, not swept
+    expect((await service.invoke({ prompt: 'hi', sessionKey: 'room-1' })).status).toBe('success');
+    expect(runner.calls[1].args).not.toContain('--resume');
+    expect(existsSync(first)).toBe(false);
+    const second = sessions.get('room-1')!.workspace;
+    expect(second).not.toBe(first);
+
+    await service.endSession('room-1');
+    expect(existsSync(second)).toBe(false);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('refuses sessionKey when streaming', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const events = [];
+    for await (const event of service.invokeStream({ prompt: 'hi', sessionKey: 'room-1' })) {
+      events.push(event);
+    }
+    expect(events).toMatchObject([{ type: 'result', result: { status: 'config_error' } }]);
+    expect(runner.calls).toHaveLength(0);
+  });
+
+  test('parses JSON envelope', async () => {
+    const envelope = { type: 'result', subtype: 'success', result: 'Hi', session_id: 's-1' };
+    const runner = new FakeProcessRunner({ stdout: JSON.stringify(envelope) });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi', outputFormat: 'json' });
+    expect(result.output).toBe('Hi');
+    expect(result.sessionId).toBe('s-1');
+    expect(runner.calls[0].args).toContain('--output-format');
+  });
+
+  test('times out and kills a hanging process', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'partial', hang: true });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi', timeout: 30 });
+    expect(result.status).toBe('timeout');
+    expect(result.error).toBeInstanceOf(ClaudeCodeTimeoutError);
+    expect(runner.calls[0].killed).toBe(true);
+  });
+
+  test('keeps stderr and duration of a timed out call', async () => {
+    const runner = new FakeProcessRunner({ stderr: 'still thinking\n', hang: true });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi', timeout: 30 });
+    expect(result).toMatchObject({ status: 'timeout', stderr: 'still thinking' });
+    expect(result.error).toMatchObject({ model: 'sonnet', stderr: 'still thinking' });
+    expect(result.error?.duration).toBeGreaterThanOrEqual(30);
+
+    const events = [];
+    for await (const event of service.invokeStream({ prompt: 'hi', timeout: 30 })) {
+      events.push(event);
+    }
+    const streamed = events.at(-1);
+    expect(streamed).toMatchObject({ type: 'result', result: { status: 'timeout' } });
+    if (streamed?.type !== 'result') throw new Error('no result');
+    expect(streamed.result.error).toMatchObject({ stderr: 'still thinking' });
+    expect(streamed.result.error?.duration).toBeGreaterThanOrEqual(30);
+  });
+
+  test('cancels a running call through its signal', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'partial', hang: true });
+    const service = new ClaudeCodeService(undefined, runner);
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 20);
+    const result = await service.invoke({ prompt: 'hi', signal: controller.signal });
+    expect(result.status).toBe('cancelled');
+    expect(result.error).toBeInstanceOf(ClaudeCodeCancelledError);
+    expect(runner.calls[0].signals[0]).toBe('SIGTERM');
+    expect(service.getRecentFailures()).toEqual([]);
+
+    // Already aborted: nothing is spawned
+    const again = await service.invoke({ prompt: 'hi', signal: controller.signal });
+    expect(again.status).toBe('cancelled');
+    expect(runner.calls).toHaveLength(1);
+    await expect(
+      service.generateText('hi', 'sonnet', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(ClaudeCodeCancelledError);
+  });
+
+  test('cancels a stream', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'partial', hang: true });
+    const service = new ClaudeCodeService(undefined, runner);
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 20);
+    const events = [];
+    for await (const event of service.invokeStream({ prompt: 'hi', signal: controller.signal })) {
+      events.push(event);
+    }
+    expect(events.at(-1)).toMatchObject({ type: 'result', result: { status: 'cancelled' } });
+    expect(runner.calls[0].killed).toBe(true);
+  });
+
+  test('classifies auth failure', async () => {
+    const runner = new FakeProcessRunner({ stderr: 'OAuth token has expired', exitCode: 1 });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi' });
+    expect(result.status).toBe('auth_error');
+    expect(result.error).toBeInstanceOf(ClaudeCodeAuthError);
+    await expect(service.generateText('hi')).rejects.toBeInstanceOf(ClaudeCodeAuthError);
+  });
+
+  test('emits auth lost runtime event once', async () => {
+    const emitted: string[] = [];
+    const runtime = {
+      emitEvent: async (event: string) => void emitted.push(event),
+    } as unknown as IAgentRuntime;
+    const runner = new FakeProcessRunner({ stderr: 'OAuth token has expired', exitCode: 1 });
+    const service = new ClaudeCodeService(runtime, runner);
+
+    await service.invoke({ prompt: 'hi' });
+    await service.invoke({ prompt: 'hi' });
+    expect(emitted).toEqual([ClaudeCodeEventType.AUTH_LOST]);
+  });
+
+  test('generateText rejects empty output', async () => {
+    const service = new ClaudeCodeService(undefined, new FakeProcessRunner({ stdout: '  \n' }));
+    await expect(service.generateText('hi')).rejects.toBeInstanceOf(ClaudeCodeEmptyOutputError);
+  });
+
+  test('returns large chunked output intact', async () => {
+    const chunk = 'y'.repeat(64 * 1024);
+    const runner = new FakeProcessRunner({ stdout: Array(64).fill(chunk) });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi' });
+    expect(result.output.length).toBe(64 * chunk.length);
+  });
+
+  test('records metrics per invocation', async () => {
+    const runner = new FakeProcessRunner([{ stdout: 'ok' }, { hang: true }]);
+    const service = new ClaudeCodeService(undefined, runner);
+
+    await service.invoke({ prompt: 'hi', model: 'haiku' });
+    await service.invoke({ prompt: 'hi', model: 'haiku', timeout: 20 });
+
+    const stats = service.getStats();
+    expect(stats.invocations.haiku).toEqual({ success: 1, timeout: 1 });
+    expect(stats.timeouts).toBe(1);
+    expect(stats.queueWait.count).toBe(2);
+    expect(service.getPrometheusMetrics()).toContain(
+      'claude_code_invocations_total{model="haiku",status="timeout"} 1'
+    );
+  });
+
+  test('passes MCP servers in a temporary strict config', async () => {
+    let config: unknown;
+    const runner = new FakeProcessRunner(({ args }) => {
+      config = JSON.parse(readFileSync(args[args.indexOf('--mcp-config') + 1], 'utf8'));
+      return { stdout: 'ok' };
+    });
+    const service = new ClaudeCodeService(undefined, runner);
+    const mcpServers = { tickets: { command: 'ticket-mcp', args: ['--readonly'] } };
+
+    const result = await service.invoke({
+      prompt: 'hi',
+      mcpServers,
+      allowedTools: ['Read', 'mcp__tickets__search'],
+    });
+    expect(result.status).toBe('success');
+    expect(config).toEqual({ mcpServers });
+
+    const { args } = runner.calls[0];
+    expect(args).toContain('--strict-mcp-config');
+    expect(existsSync(args[args.indexOf('--mcp-config') + 1])).toBe(false);
+  });
+
+  test('rejects tools of unknown MCP servers without spawning', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'hi', allowedTools: 'mcp__docs__search' });
+    expect(result.status).toBe('config_error');
+    expect(result.error).toBeInstanceOf(ClaudeCodeConfigError);
+    expect(runner.calls).toHaveLength(0);
+    expect(service.getRecentFailures()).toEqual([]);
+  });
+
+  test('expands permission profiles', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    await service.invoke({ prompt: 'hi', profile: 'edit', allowedTools: 'WebFetch' });
+    const { args } = runner.calls[0];
+    expect(args[args.indexOf('--allowedTools') + 1]).toBe(
+      'Read,Grep,Glob,LS,Edit,MultiEdit,Write,WebFetch'
+    );
+    expect(args[args.indexOf('--disallowedTools') + 1]).toBe('Bash');
+    expect(args[args.indexOf('--permission-mode') + 1]).toBe('acceptEdits');
+
+    const result = await service.invoke({ prompt: 'hi', profile: 'admin' });
+    expect(result.status).toBe('config_error');
+    expect(runner.calls).toHaveLength(1);
+  });
+
+  test('passes the system prompt separately', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    await service.generateText('hi', 'haiku', { system: 'You are Eliza.' });
+    await service.invoke({ prompt: 'hi', systemPrompt: 'Be brief.', systemPromptMode: 'replace' });
+
+    const [append, replace] = runner.calls.map((c) => c.args);
+    expect(append.slice(-2)).toEqual(['--append-system-prompt', 'You are Eliza.']);
+    expect(runner.calls[0].stdin).toEqual(['hi']);
+    expect(replace.slice(-2)).toEqual(['--system-prompt', 'Be brief.']);
+  });
+
+  test('describes an image staged into the workspace', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+    let staged: number[] = [];
+    const runner = new FakeProcessRunner(({ cwd }) => {
+      staged = [...readFileSync(join(cwd, 'image.png'))];
+      return { stdout: '{"title": "Logo", "description": "A small logo."}' };
+    });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const uri = `data:image/png;base64,${Buffer.from(png).toString('base64')}`;
+    const description = await service.describeImage(uri, { prompt: 'Be brief.' });
+    expect(description).toEqual({ title: 'Logo', description: 'A small logo.' });
+    expect(staged).toEqual([...png]);
+
+    const { args, cwd } = runner.calls[0];
+    expect(args[args.indexOf('--allowedTools') + 1]).toBe('Read');
+    expect(existsSync(cwd)).toBe(false);
+  });
+
+  test('refuses staged files outside a temp workspace', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const service = new ClaudeCodeService(undefined, runner);
+    const files = [{ path: '../escape.txt', data: 'x' }];
+
+    expect((await service.invoke({ prompt: 'hi', files })).status).toBe('config_error');
+    expect((await service.invoke({ prompt: 'hi', cwd: '/tmp', files: [] })).status).toBe(
+      'config_error'
+    );
+    expect(runner.calls).toHaveLength(0);
+  });
+
+  test('captures changes made in an isolated copy', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'service-test-'));
+    await writeFile(join(dir, 'notes.md'), 'draft\n');
+    const runner = new FakeProcessRunner(({ cwd }) => {
+      writeFileSync(join(cwd, 'notes.md'), 'final\n');
+      return { stdout: 'done' };
+    });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.research('edit notes', { cwd: dir, isolation: 'copy' });
+    expect(runner.calls[0].cwd).not.toBe(dir);
+    expect(result.changes?.files).toMatchObject([{ path: 'notes.md', status: 'modified' }]);
+    expect(await readFile(join(dir, 'notes.md'), 'utf8')).toBe('draft\n');
+
+    await service.applyChanges(result.changes!);
+    expect(await readFile(join(dir, 'notes.md'), 'utf8')).toBe('final\n');
+    expect(existsSync(runner.calls[0].cwd)).toBe(false);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('streams through the runner', async () => {
+    const lines = [
+      {
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+      },
+      {
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+      },
+      { type: 'result', subtype: 'success', result: 'Hello' },
+    ].map((l) => JSON.stringify(l) + '\n');
+    const service = new ClaudeCodeService(undefined, new FakeProcessRunner({ stdout: lines }));
+
+    const chunks: string[] = [];
+    const output = await service.generateText('hi', 'sonnet', {
+      onStreamChunk: (chunk) => void chunks.push(chunk),
+    });
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(output).toBe('<response>\nHello\n</response>');
+  });
+
+  test('does not fall back once chunks were streamed', async () => {
+    const limited = [
+      {
+        type: 'stream_event',
+        event: {
+          type: 'content_block_delta',
+          delta: { type: 'text_delta', text: 'Claude AI usage limit reached' },
+        },
+      },
+      { type: 'result', is_error: true, result: 'Claude AI usage limit reached' },
+    ].map((l) => JSON.stringify(l) + '\n');
+    const runner = new FakeProcessRunner([{ stdout: limited, exitCode: 1 }, { stdout: 'Hello' }]);
+    const service = new ClaudeCodeService(undefined, runner);
+    Object.assign(service, { fallbackModels: ['sonnet', 'haiku'] });
+
+    const chunks: string[] = [];
+    const generated = service.generateText('hi', 'sonnet', {
+      onStreamChunk: (chunk) => void chunks.push(chunk),
+    });
+    await expect(generated).rejects.toBeInstanceOf(ClaudeCodeUsageLimitError);
+    expect(chunks).toEqual(['Claude AI usage limit reached']);
+    expect(runner.calls).toHaveLength(1);
+
+    // Without streaming the same limit falls back to haiku
+    const fallback = new FakeProcessRunner([{ stdout: limited, exitCode: 1 }, { stdout: 'Hello' }]);
+    const unstreamed = new ClaudeCodeService(undefined, fallback);
+    Object.assign(unstreamed, { fallbackModels: ['sonnet', 'haiku'] });
+    expect(await unstreamed.generateText('hi', 'sonnet')).toContain('Hello');
+    expect(fallback.calls).toHaveLength(2);
+  });
+});
+
+describe('ClaudeCodeService with stub executable', () => {
+  test('kills a hanging CLI on timeout', async () => {
+    const runner = new BunProcessRunner({ executable: STUB, env: { CLAUDE_STUB_HANG: '1' } });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const started = Date.now();
+    const result = await service.invoke({ prompt: 'hi', timeout: 300 });
+    expect(result.status).toBe('timeout');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test('echoes the prompt', async () => {
+    const runner = new BunProcessRunner({ executable: STUB });
+    const service = new ClaudeCodeService(undefined, runner);
+
+    const result = await service.invoke({ prompt: 'ping' });
+    expect(result.status).toBe('success');
+    expect(result.output).toBe('ping');
+
+    const messages = [{ role: 'user' as const, content: 'pong' }];
+    expect((await service.invoke({ messages })).output).toBe('pong');
+  });
+});
+
+describe('ClaudeCodeModelProvider direct path', () => {
+  test('wraps output from the runner', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'Hi there' });
+    const provider = new ClaudeCodeModelProvider({ runner });
+
+    expect(await provider.generateText(undefined, 'hi', 'haiku')).toBe(
+      '<response>\nHi there\n</response>'
+    );
+    expect(runner.calls[0].args).toEqual(['-p', '--model', 'haiku']);
+    expect(runner.calls[0].stdin).toEqual(['hi']);
+  });
+
+  test('passes the prompt in argv with the argv transport', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const provider = new ClaudeCodeModelProvider({ runner, promptTransport: 'argv' });
+
+    await provider.generateText(undefined, 'hi', 'haiku');
+    expect(runner.calls[0].args).toEqual(['-p', 'hi', '--model', 'haiku']);
+    expect(runner.calls[0].stdin).toEqual([]);
+  });
+
+  test('truncates only the user prompt', async () => {
+    const runner = new FakeProcessRunner({ stdout: 'ok' });
+    const provider = new ClaudeCodeModelProvider({ runner, systemPromptMode: 'replace' });
+    const system = 's'.repeat(45000);
+
+    await provider.generateText(undefined, 'u'.repeat(10000), 'haiku', { system });
+    const { args, stdin } = runner.calls[0];
+    expect(stdin.join('\n').length).toBeLessThanOrEqual(5000);
+    expect(args.slice(-2)).toEqual(['--system-prompt', system]);
+  });
+
+  test('throws typed errors', async () => {
+    const auth = new ClaudeCodeModelProvider({
+      runner: new FakeProcessRunner({ stderr: 'not logged in', exitCode: 1 }),
+    });
+    await expect(auth.generateText(undefined, 'hi')).rejects.toBeInstanceOf(ClaudeCodeAuthError);
+
+    const hang = new ClaudeCodeModelProvider({
+      timeout: 30,
+      runner: new FakeProcessRunner({ hang: true }),
+    });
+    await expect(hang.generateText(undefined, 'hi')).rejects.toBeInstanceOf(
+      ClaudeCodeTimeoutError
+    );
+  });
+
+  test('keeps stderr and duration of a timed out call', async () => {
+    const provider = new ClaudeCodeModelProvider({
+      timeout: 30,
+      runner: new FakeProcessRunner({ stderr: 'still thinking\n', hang: true }),
+    });
+    const error = await provider.generateText(undefined, 'hi').catch((e) => e);
+    expect(error).toBeInstanceOf(ClaudeCodeTimeoutError);
+    expect(error).toMatchObject({ stderr: 'still thinking' });
+    expect(error.duration).toBeGreaterThanOrEqual(30);
+  });
+});
@@ -1,24 +1,143 @@
 import { Service, logger } from '@elizaos/core';
 import type { IAgentRuntime } from '@elizaos/core';
-import { readFile } from 'node:fs/promises';
-import { mkdtemp, rm } from 'node:fs/promises';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
-import { join, resolve } from 'node:path';
+import { dirname, isAbsolute, join, normalize, resolve, sep } from 'node:path';
 import { homedir } from 'node:os';
 
 import type {
+  AccountStatus,
+  CassetteEntry,
   ClaudeInvokeOptions,
   ClaudeInvokeResult,
+  ClaudeStreamEvent,
+  ClaudeStreamCallback,
+  GenerateOptions,
+  ClaudeResultMetadata,
+  ClaudeModel,
+  ClaudeErrorKind,
+  QueueDepth,
+  ClaudeCodeStats,
+  ClaudeRecentFailure,
   AuthStatus,
-  ClaudeCredentials,
+  ClaudeAuthEvent,
+  ClaudeMessage,
+  ClaudeJob,
+  ClaudeJobCallback,
+  McpServerConfig,
+  PermissionProfile,
+  ProcessPoolStatus,
+  PromptTransport,
+  ResearchOptions,
+  SystemPromptMode,
+  WorkspaceFile,
+  WorkspaceChanges,
+  WorkspaceIsolation,
 } from './types';
-import { isAuthError } from './types';
+import { ClaudeCodeEventType, isAuthError, classifyError, parseResetTime } from './types';
+import {
+  ClaudeCodeError,
+  ClaudeCodeAuthError,
+  ClaudeCodeCancelledError,
+  ClaudeCodeConfigError,
+  ClaudeCodeEmptyOutputError,
+  ClaudeCodeExitError,
+  ClaudeCodeQueueTimeoutError,
+  ClaudeCodeSpawnError,
+  ClaudeCodeTimeoutError,
+  ClaudeCodeUsageLimitError,
+} from './errors';
+import { StreamJsonParser, formatUserMessage, parseJsonOutput, readLines } from './output';
+import { SessionManager } from './session';
+import { DEFAULT_JOB_RETENTION, JobManager } from './jobs';
+import type { JobFilter } from './jobs';
+import { generateObjectWith } from './object';
+import type { ObjectRequest } from './object';
+import { InvocationQueue } from './queue';
+import type { QueueSlot } from './queue';
+import { DEFAULT_RETRY_POLICY, computeBackoff, delay, fallbackChain } from './retry';
+import type { RetryPolicy } from './retry';
+import { resolveTruncationStrategy, sectionsStrategy } from './truncate';
+import type { TruncationStrategy } from './truncate';
+import {
+  BunProcessRunner,
+  DEFAULT_KILL_GRACE,
+  runnerConfigFromSettings,
+  stoppedError,
+  terminate,
+} from './runner';
+import type { ProcessRunner, RunningProcess } from './runner';
+import { CredentialWatcher, resolveConfigDir } from './credentials';
+import { MetricsRecorder, renderPrometheus } from './metrics';
+import { validateMcpServers, validateMcpToolNames, writeMcpConfig } from './mcp';
+import { ChangeCapture, applyChanges, discardChanges } from './changes';
+import { ProcessPool, isPoolable, poolConfigFromSettings } from './pool';
+import { ChatServer, serverConfigFromSettings } from './server';
+import { Cassette, cassetteConfigFromSettings } from './cassette';
+import { AccountPool, accountPoolConfigFromSettings } from './accounts';
+import type { AccountLease } from './accounts';
+import {
+  DEFAULT_MAX_IMAGE_BYTES,
+  IMAGE_TYPES,
+  imagePrompt,
+  loadImage,
+  parseImageDescription,
+} from './image';
+import type { ImageDescription, ImageInput } from './image';
+import {
+  DEFAULT_PERMISSION_PROFILES,
+  profileAllowedTools,
+  resolvePermissionProfiles,
+} from './profiles';
 
 const DEFAULT_TIMEOUT = 120000; // 2 minutes
 // Claude context is measured in tokens. We estimate tokens from chars.
 const DEFAULT_MAX_PROMPT_TOKENS = 200_000;
 const DEFAULT_TOKEN_CHAR_RATIO = 4; // ~4 chars per token heuristic
-const CREDENTIALS_PATH = join(homedir(), '.claude', '.credentials.json');
+const DEFAULT_SESSION_TTL = 3600000; // 1 hour idle
+const SESSION_SWEEP_INTERVAL = 60000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_QUEUE_TIMEOUT = 300000; // 5 minutes
+
+function defaultSessionStorePath(agentId?: string): string {
+  return join(homedir(), '.eliza', 'claude-code', `sessions-${agentId ?? 'default'}.json`);
+}
+
+function defaultJobStorePath(agentId?: string): string {
+  return join(homedir(), '.eliza', 'claude-code', `jobs-${agentId ?? 'default'}.json`);
+}
+
+/**
+ * Log the auth status found at start-up
+ */
+function logAuthStatus(status: AuthStatus, account?: string): void {
+  const who = account ? ` account ${account}` : '';
+  if (!status.authenticated) {
+    logger.warn(`[claude-code]${who} not authenticated, run: claude login`);
+    if (status.error) {
+      logger.warn(`[claude-code]${who} auth check error: ${status.error}`);
+    }
+  } else {
+    const expiresIn = status.expiresAt
+      ? Math.round((status.expiresAt - Date.now()) / 1000 / 60 / 60)
+      : 'unknown';
+    logger.info(`[claude-code]${who} authenticated (expires in ~${expiresIn}h)`);
+  }
+}
+
+/**
+ * Timeout and abort handling for one running CLI process
+ */
+interface ProcessWatch {
+  /** Rejects with the timeout or cancel error when the process is stopped */
+  stopped: Promise<never>;
+  /** The error the process was stopped with, if any */
+  error: () => ClaudeCodeError | null;
+  /** Disarm the timeout and abort listener */
+  clear: () => void;
+  /** Resolves once a stopped process has exited */
+  settled: () => Promise<void>;
+}
 
 /**
  * Unified service for invoking Claude Code CLI.
@@ -31,13 +150,53 @@ export class ClaudeCodeService extends Service {
   private defaultTimeout: number;
   private maxPromptTokens: number;
   private tokenCharRatio: number;
+  private truncation: TruncationStrategy = sectionsStrategy;
   private authErrorEmitted = false;
+  private sessions: SessionManager;
+  private jobs: JobManager;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private queue: InvocationQueue;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private fallbackModels: ClaudeModel[] = [];
+  private runner: ProcessRunner;
+  private credentials: CredentialWatcher;
+  private metrics = new MetricsRecorder();
+  private recentFailures = new Map<ClaudeModel, ClaudeRecentFailure>();
+  private mcpServers: Record<string, McpServerConfig> = {};
+  private changeIsolation: WorkspaceIsolation = 'none';
+  private permissionProfiles: Record<string, PermissionProfile> = DEFAULT_PERMISSION_PROFILES;
+  private systemPromptMode: SystemPromptMode = 'append';
+  private maxImageBytes = DEFAULT_MAX_IMAGE_BYTES;
+  private pool: ProcessPool | null = null;
+  private killGrace = DEFAULT_KILL_GRACE;
+  private server: ChatServer | null = null;
+  private promptTransport: PromptTransport = 'stdin';
+  private cassette: Cassette | null = null;
+  private accounts: AccountPool | null = null;
 
-  constructor(runtime?: IAgentRuntime) {
+  constructor(runtime?: IAgentRuntime, runner: ProcessRunner = new BunProcessRunner()) {
     super(runtime);
+    this.runner = runner;
+    this.credentials = new CredentialWatcher({
+      configDir: resolveConfigDir(),
+      onEvent: (event) => this.handleAuthEvent(event),
+    });
     this.defaultTimeout = DEFAULT_TIMEOUT;
     this.maxPromptTokens = DEFAULT_MAX_PROMPT_TOKENS;
     this.tokenCharRatio = DEFAULT_TOKEN_CHAR_RATIO;
+    this.sessions = new SessionManager(
+      defaultSessionStorePath(runtime?.agentId),
+      DEFAULT_SESSION_TTL
+    );
+    this.jobs = new JobManager(
+      defaultJobStorePath(runtime?.agentId),
+      DEFAULT_JOB_RETENTION,
+      (job) => this.emitEvent(ClaudeCodeEventType.JOB_FINISHED, { job })
+    );
+    this.queue = new InvocationQueue({
+      maxConcurrency: DEFAULT_MAX_CONCURRENCY,
+      queueTimeout: DEFAULT_QUEUE_TIMEOUT,
+    });
   }
 
   static async start(runtime: IAgentRuntime): Promise<Service> {
@@ -55,292 +214,1319 @@ export class ClaudeCodeService extends Service {
     if (ccSettings?.tokenCharRatio && typeof ccSettings.tokenCharRatio === 'number') {
       service.tokenCharRatio = ccSettings.tokenCharRatio;
     }
+    const runnerConfig = runnerConfigFromSettings(ccSettings);
+    if (Object.keys(runnerConfig).length > 0) {
+      service.runner = new BunProcessRunner(runnerConfig);
+    }
+    if (ccSettings?.truncation !== undefined) {
+      service.truncation = resolveTruncationStrategy(ccSettings.truncation);
+    }
+    if (ccSettings?.systemPromptMode === 'replace') {
+      service.systemPromptMode = 'replace';
+    }
+    if (ccSettings?.promptTransport === 'argv') {
+      service.promptTransport = 'argv';
+    }
+    if (typeof ccSettings?.maxImageBytes === 'number') {
+      service.maxImageBytes = ccSettings.maxImageBytes;
+    }
+    if (typeof ccSettings?.killGrace === 'number') {
+      service.killGrace = ccSettings.killGrace;
+    }
+    service.sessions = new SessionManager(
+      typeof ccSettings?.sessionStorePath === 'string'
+        ? ccSettings.sessionStorePath
+        : defaultSessionStorePath(runtime.agentId),
+      typeof ccSettings?.sessionTtl === 'number' ? ccSettings.sessionTtl : DEFAULT_SESSION_TTL
+    );
+    service.jobs = new JobManager(
+      typeof ccSettings?.jobStorePath === 'string'
+        ? ccSettings.jobStorePath
+        : defaultJobStorePath(runtime.agentId),
+      typeof ccSettings?.jobRetention === 'number'
+        ? ccSettings.jobRetention
+        : DEFAULT_JOB_RETENTION,
+      (job) => service.emitEvent(ClaudeCodeEventType.JOB_FINISHED, { job })
+    );
 
-    // Check auth status on startup
-    const authStatus = await service.checkAuth();
-    if (!authStatus.authenticated) {
-      logger.warn('[claude-code] not authenticated, run: claude login');
-      if (authStatus.error) {
-        logger.warn(`[claude-code] auth check error: ${authStatus.error}`);
-      }
+    const maxConcurrency =
+      typeof ccSettings?.maxConcurrency === 'number'
+        ? ccSettings.maxConcurrency
+        : DEFAULT_MAX_CONCURRENCY;
+    service.queue = new InvocationQueue({
+      maxConcurrency,
+      maxConcurrencyPerModel: ccSettings?.maxConcurrencyPerModel as
+        | Partial<Record<ClaudeModel, number>>
+        | undefined,
+      queueTimeout:
+        typeof ccSettings?.queueTimeout === 'number'
+          ? ccSettings.queueTimeout
+          : DEFAULT_QUEUE_TIMEOUT,
+    });
+
+    if (ccSettings?.retry && typeof ccSettings.retry === 'object') {
+      service.retryPolicy = {
+        ...DEFAULT_RETRY_POLICY,
+        ...(ccSettings.retry as Partial<RetryPolicy>),
+      };
+    }
+    if (Array.isArray(ccSettings?.fallbackModels)) {
+      service.fallbackModels = ccSettings.fallbackModels as ClaudeModel[];
+    }
+    if (ccSettings?.mcpServers && typeof ccSettings.mcpServers === 'object') {
+      // Invalid defaults would fail every call, so refuse to start instead
+      const servers = ccSettings.mcpServers as Record<string, McpServerConfig>;
+      validateMcpServers(servers);
+      service.mcpServers = servers;
+    }
+    // Bad tool names would otherwise only surface as CLI failures at call time
+    service.permissionProfiles = resolvePermissionProfiles(ccSettings?.permissionProfiles);
+    if (ccSettings?.changeIsolation === 'worktree' || ccSettings?.changeIsolation === 'copy') {
+      service.changeIsolation = ccSettings.changeIsolation;
+    }
+    const cassetteConfig = cassetteConfigFromSettings(ccSettings?.cassette);
+    if (cassetteConfig) {
+      service.cassette = new Cassette(cassetteConfig);
+      await service.cassette.load();
+    }
+    const accountConfig = accountPoolConfigFromSettings(ccSettings);
+    const poolConfig = poolConfigFromSettings(ccSettings?.pool);
+    if (poolConfig && accountConfig) {
+      // Warm processes are started before the account is known
+      logger.warn('[claude-code] the warm process pool is not used with accounts');
+    } else if (poolConfig) {
+      service.pool = new ProcessPool(service.runner, poolConfig, service.killGrace);
+    }
+
+    // Restore room sessions from previous run, then expire idle ones periodically
+    await service.sessions.load();
+    service.sweepTimer = setInterval(() => {
+      service.sessions.sweep().catch(() => {});
+    }, SESSION_SWEEP_INTERVAL);
+    service.sweepTimer.unref?.();
+    // Jobs left running by a crash are reported as interrupted
+    await service.jobs.load();
+
+    // Check auth status on startup, then keep watching the credentials file(s)
+    const watchOptions = {
+      checkInterval:
+        typeof ccSettings?.authCheckInterval === 'number'
+          ? ccSettings.authCheckInterval
+          : undefined,
+      warnBefore: Array.isArray(ccSettings?.authWarnBefore)
+        ? (ccSettings.authWarnBefore as number[])
+        : undefined,
+      onEvent: (event: ClaudeAuthEvent) => service.handleAuthEvent(event),
+    };
+    if (accountConfig) {
+      service.accounts = new AccountPool(accountConfig, watchOptions);
+      const statuses = await service.accounts.start();
+      accountConfig.accounts.forEach((account, i) => logAuthStatus(statuses[i], account.name));
     } else {
-      const expiresIn = authStatus.expiresAt
-        ? Math.round((authStatus.expiresAt - Date.now()) / 1000 / 60 / 60)
-        : 'unknown';
-      logger.info(`[claude-code] authenticated (expires in ~${expiresIn}h)`);
+      service.credentials = new CredentialWatcher({
+        configDir: resolveConfigDir(runnerConfig.env?.CLAUDE_CONFIG_DIR),
+        ...watchOptions,
+      });
+      logAuthStatus(await service.credentials.start());
     }
 
-    logger.info(`[claude-code] service started (timeout=${service.defaultTimeout}ms)`);
+    const serverConfig = serverConfigFromSettings(ccSettings?.server);
+    if (serverConfig) {
+      service.server = new ChatServer(service, serverConfig);
+      service.server.start();
+    }
+
+    logger.info(
+      `[claude-code] service started (timeout=${service.defaultTimeout}ms, maxConcurrency=${maxConcurrency})`
+    );
     return service;
   }
 
   async stop(): Promise<void> {
+    this.credentials.stop();
+    this.accounts?.stop();
+    await this.server?.stop();
+    this.server = null;
+    await this.jobs.stop();
+    await this.pool?.stop();
+    this.pool = null;
+    await this.cassette?.flush();
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
     logger.info('[claude-code] service stopped');
   }
 
   /**
-   * Check OAuth authentication status by reading credentials file
+   * Check OAuth authentication status by reading credentials file. With
+   * accounts, checks the named account, or without a name returns the first
+   * authenticated account's status (the first account's if none is).
    */
-  async checkAuth(): Promise<AuthStatus> {
-    try {
-      const content = await readFile(CREDENTIALS_PATH, 'utf-8');
-      const creds: ClaudeCredentials = JSON.parse(content);
-
-      if (!creds.claudeAiOauth) {
-        return { authenticated: false, needsLogin: true };
-      }
-
-      const { expiresAt, subscriptionType, accessToken } = creds.claudeAiOauth;
-
-      if (!accessToken) {
-        return { authenticated: false, needsLogin: true };
-      }
-
-      const now = Date.now();
-      const isExpired = expiresAt && expiresAt < now;
-
-      return {
-        authenticated: !isExpired,
-        expiresAt,
-        subscriptionType,
-        needsLogin: isExpired || false,
-      };
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      return {
-        authenticated: false,
-        needsLogin: true,
-        error: msg,
-      };
+  async checkAuth(account?: string): Promise<AuthStatus> {
+    if (!this.accounts) {
+      if (account) throw new ClaudeCodeConfigError(`unknown account '${account}'`);
+      return this.credentials.check();
     }
+    if (account) return this.accounts.check(account);
+    const statuses = await this.accounts.checkAll();
+    return statuses.find((status) => status.authenticated) ?? statuses[0];
   }
 
   /**
-   * Handle auth error - log warning
+   * Per-account auth, load and cooldown state (empty without accounts)
+   */
+  getAccounts(): AccountStatus[] {
+    return this.accounts?.getStatus() ?? [];
+  }
+
+  /**
+   * Handle auth error - log once, then report auth lost until credentials change
    */
   private handleAuthError(_stderr: string): void {
-    // Only log once per service lifetime to avoid spam
+    // Only log once until auth is restored to avoid spam
     if (!this.authErrorEmitted) {
       this.authErrorEmitted = true;
       logger.error('[claude-code] OAuth token expired or invalid');
       logger.error('[claude-code] Run: claude login');
+      // With accounts, the failing account is marked when its result is reported
+      if (!this.accounts) this.credentials.markLost();
     }
   }
 
   /**
-   * Core invocation method for Claude Code CLI
+   * Log an auth change and forward it as an ElizaOS runtime event
    */
-  private truncatePrompt(prompt: string): string {
+  private handleAuthEvent(event: ClaudeAuthEvent): void {
+    const who = event.account ? ` account ${event.account}` : '';
+    let name: string;
+    if (event.type === 'auth_expiring') {
+      const minutes = Math.round((event.expiresIn ?? 0) / 60000);
+      logger.warn(
+        `[claude-code]${who} OAuth token expires in ~${minutes}min ` +
+          '(the CLI refreshes it; run claude login if it stays expired)'
+      );
+      name = ClaudeCodeEventType.AUTH_EXPIRING;
+    } else if (event.type === 'auth_restored') {
+      logger.info(`[claude-code]${who} authentication restored`);
+      this.authErrorEmitted = false;
+      name = ClaudeCodeEventType.AUTH_RESTORED;
+    } else {
+      if (event.reason === 'credentials') {
+        logger.warn(`[claude-code]${who} credentials expired or removed, run: claude login`);
+      }
+      name = ClaudeCodeEventType.AUTH_LOST;
+    }
+    this.emitEvent(name, { ...event });
+  }
+
+  /**
+   * Forward an event to ElizaOS runtime handlers, if there is a runtime
+   */
+  private emitEvent(name: string, payload: Record<string, unknown>): void {
+    if (!this.runtime?.emitEvent) return;
+    this.runtime
+      .emitEvent(name, { runtime: this.runtime, source: 'claude-code', ...payload })
+      .catch((error) => logger.warn(`[claude-code] ${name} handler failed: ${error}`));
+  }
+
+  /**
+   * Fit the prompt into maxPromptTokens using the configured strategy.
+   * The system prompt counts against the budget but is never cut.
+   */
+  private truncatePrompt(prompt: string, systemPrompt = ''): string {
     if (!prompt) return prompt;
-    const maxChars = Math.max(1, Math.floor(this.maxPromptTokens * this.tokenCharRatio));
+    const budget = Math.floor(this.maxPromptTokens * this.tokenCharRatio) - systemPrompt.length;
+    const maxChars = Math.max(1, budget);
     if (prompt.length <= maxChars) return prompt;
+    return this.truncation(prompt, maxChars);
+  }
 
-    // Preserve start + end to keep system instructions and recent context.
-    const headChars = Math.floor(maxChars * 0.6);
-    const tailChars = maxChars - headChars;
-    const head = prompt.slice(0, headChars);
-    const tail = prompt.slice(-tailChars);
-    return `${head}
+  /**
+   * Fit a conversation into maxPromptTokens: drop the oldest messages, then
+   * truncate the last one if it is still too long on its own
+   */
+  private truncateMessages(messages: ClaudeMessage[], systemPrompt = ''): ClaudeMessage[] {
+    const budget = Math.floor(this.maxPromptTokens * this.tokenCharRatio) - systemPrompt.length;
+    const kept = [...messages];
+    const size = () => kept.reduce((total, m) => total + m.content.length, 0);
+    while (kept.length > 1 && size() > budget) {
+      kept.shift();
+    }
+    if (kept.length < messages.length) {
+      logger.debug(`[claude-code] dropped ${messages.length - kept.length} oldest messages`);
+    }
+    const last = kept[kept.length - 1];
+    const content = this.truncatePrompt(last.content, systemPrompt);
+    return [...kept.slice(0, -1), { ...last, content }];
+  }
 
-[...TRUNCATED...]
+  /**
+   * Prompt and messages fitted into maxPromptTokens
+   */
+  private truncateInput(options: ClaudeInvokeOptions): ClaudeInvokeOptions {
+    const { prompt, messages, systemPrompt } = options;
+    if (messages?.length) {
+      return { ...options, messages: this.truncateMessages(messages, systemPrompt) };
+    }
+    if (!prompt) {
+      throw new ClaudeCodeConfigError('prompt or messages required');
+    }
+    return { ...options, messages: undefined, prompt: this.truncatePrompt(prompt, systemPrompt) };
+  }
 
-${tail}`;
+  /**
+   * What the CLI reads from stdin: messages as a stream-json user turn, the
+   * prompt (stdin transport), or null when the prompt is passed in argv
+   */
+  private stdinInput(options: ClaudeInvokeOptions): string | null {
+    if (options.messages) return formatUserMessage(options.messages);
+    return this.promptTransport === 'stdin' ? (options.prompt ?? '') : null;
   }
 
-  async invoke(options: ClaudeInvokeOptions): Promise<ClaudeInvokeResult> {
-    const {
-      prompt,
-      model = 'sonnet',
-      timeout = this.defaultTimeout,
-      cwd,
-      allowedTools,
-      disallowedTools,
-    } = options;
+  private promptPreview(options: ClaudeInvokeOptions): string {
+    return (options.messages?.at(-1)?.content ?? options.prompt ?? '').slice(0, 200);
+  }
 
-    const startTime = Date.now();
-    let tempDir: string | null = null;
-    let proc: ReturnType<typeof Bun.spawn> | null = null;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  /**
+   * Spawn the CLI (on an account, if given) and write its stdin input, if any
+   */
+  private spawnCli(
+    args: string[],
+    options: ClaudeInvokeOptions,
+    cwd: string,
+    account: AccountLease | null = null
+  ): RunningProcess {
+    const input = this.stdinInput(options);
+    const proc = this.runner.spawn(args, { cwd, env: account?.env, stdin: input !== null });
+    if (input !== null && proc.stdin) {
+      proc.stdin.write(input);
+      proc.stdin.end();
+    }
+    return proc;
+  }
+
+  /**
+   * Build CLI args for an invocation (prompt must already be truncated).
+   * The prompt is only included with the argv transport.
+   */
+  private buildArgs(options: ClaudeInvokeOptions, extraArgs: string[] = []): string[] {
+    const { model = 'sonnet', allowedTools, disallowedTools, permissionMode } = options;
+    const prompt = this.stdinInput(options) === null ? [options.prompt ?? ''] : [];
+    const args = ['-p', ...prompt, '--model', model, ...extraArgs];
+    if (options.messages) {
+      args.push('--input-format', 'stream-json');
+    }
+
+    // Add allowed tools if specified
+    if (allowedTools && allowedTools.length > 0) {
+      const tools = Array.isArray(allowedTools) ? allowedTools.join(',') : allowedTools;
+      args.push('--allowedTools', tools);
+    }
+
+    // Add disallowed tools if specified
+    if (disallowedTools && disallowedTools.length > 0) {
+      const tools = Array.isArray(disallowedTools) ? disallowedTools.join(',') : disallowedTools;
+      args.push('--disallowedTools', tools);
+    }
 
+    if (permissionMode) {
+      args.push('--permission-mode', permissionMode);
+    }
+
+    args.push(...this.systemPromptArgs(options));
+    return args;
+  }
+
+  private systemPromptArgs(options: ClaudeInvokeOptions): string[] {
+    if (!options.systemPrompt) return [];
+    const mode = options.systemPromptMode ?? this.systemPromptMode;
+    const flag = mode === 'replace' ? '--system-prompt' : '--append-system-prompt';
+    return [flag, options.systemPrompt];
+  }
+
+  /**
+   * Expand a named permission profile into tool lists and permission mode.
+   * Tools passed with the call are added to the profile's.
+   */
+  private applyProfile(options: ClaudeInvokeOptions): ClaudeInvokeOptions {
+    if (!options.profile) return options;
+    const profile = this.permissionProfiles[options.profile];
+    if (!profile) {
+      throw new ClaudeCodeConfigError(`unknown permission profile '${options.profile}'`);
+    }
+    const list = (tools?: string[] | string) =>
+      Array.isArray(tools) ? tools : (tools ?? '').split(',').filter((t) => t.trim());
+    return {
+      ...options,
+      allowedTools: [...profileAllowedTools(profile), ...list(options.allowedTools)],
+      disallowedTools: [...profile.disallowedTools, ...list(options.disallowedTools)],
+      permissionMode: options.permissionMode ?? profile.permissionMode,
+    };
+  }
+
+  /**
+   * Validate MCP servers (defaults merged with per-call servers) and MCP tool
+   * names, then write the temporary `--mcp-config` file. Null without servers.
+   */
+  private async prepareMcp(
+    options: ClaudeInvokeOptions
+  ): Promise<{ args: string[]; cleanup: () => Promise<void> } | null> {
+    if (options.mcpServers) {
+      validateMcpServers(options.mcpServers);
+    }
+    const servers = { ...this.mcpServers, ...options.mcpServers };
+    validateMcpToolNames(servers, options.allowedTools, options.disallowedTools);
+    if (Object.keys(servers).length === 0) return null;
+    return writeMcpConfig(servers);
+  }
+
+  /**
+   * Resolve working directory, creating an isolated temp workspace if no cwd
+   */
+  private async prepareWorkspace(
+    cwd?: string
+  ): Promise<{ workDir: string; tempDir: string | null }> {
+    if (cwd) {
+      return { workDir: resolve(cwd), tempDir: null };
+    }
+    const baseTmpDir = process.env.TMPDIR || tmpdir();
+    const tempDir = await mkdtemp(join(baseTmpDir, 'claude-code-'));
+    logger.debug(`[claude-code] created temp workspace: ${tempDir}`);
+    return { workDir: tempDir, tempDir };
+  }
+
+  /**
+   * Write staged files into a temp workspace, refusing paths that leave it
+   */
+  private async writeWorkspaceFiles(workDir: string, files: WorkspaceFile[]): Promise<void> {
+    for (const file of files) {
+      const path = normalize(file.path);
+      if (path === '.' || isAbsolute(path) || path.split(sep)[0] === '..') {
+        throw new ClaudeCodeConfigError(`invalid workspace file path '${file.path}'`);
+      }
+      const target = join(workDir, path);
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, file.data);
+    }
+  }
+
+  /**
+   * Remove a temp workspace created by prepareWorkspace()
+   */
+  private async cleanupWorkspace(tempDir: string | null): Promise<void> {
+    if (!tempDir) return;
     try {
-      const truncated = this.truncatePrompt(prompt);
+      await rm(tempDir, { recursive: true, force: true });
+      logger.debug(`[claude-code] cleaned up temp workspace: ${tempDir}`);
+    } catch (cleanupError) {
+      logger.warn(`[claude-code] failed to cleanup ${tempDir}: ${cleanupError}`);
+    }
+  }
 
-      // Build command args
-      const args = ['claude', '-p', truncated, '--model', model];
+  /**
+   * Snapshot workDir (or an isolated copy of it) if the call asks for changes
+   */
+  private async startCapture(
+    options: ClaudeInvokeOptions,
+    workDir: string
+  ): Promise<ChangeCapture | null> {
+    const isolation =
+      options.isolation ?? (options.captureChanges ? this.changeIsolation : 'none');
+    if (!options.captureChanges && isolation === 'none') return null;
+    return ChangeCapture.start(workDir, isolation);
+  }
 
-      // Add allowed tools if specified
-      if (allowedTools) {
-        const tools = Array.isArray(allowedTools) ? allowedTools.join(',') : allowedTools;
-        args.push('--allowedTools', tools);
+  /**
+   * Attach captured changes to a result. A failed diff does not fail the run.
+   */
+  private async finishCapture(capture: ChangeCapture, result: ClaudeInvokeResult): Promise<void> {
+    try {
+      result.changes = await capture.finish();
+      if (result.changes.files.length > 0) {
+        logger.info(
+          `[claude-code] ${result.changes.files.length} files changed in ${capture.workDir}`
+        );
       }
+    } catch (error) {
+      logger.warn(`[claude-code] failed to capture workspace changes: ${error}`);
+    }
+  }
+
+  /**
+   * Kill process if still running
+   */
+  private killProcess(proc: RunningProcess | null): void {
+    if (!proc) return;
+    try {
+      proc.kill();
+    } catch {
+      // Process already exited
+    }
+  }
+
+  /**
+   * Terminate proc (whole process group, SIGTERM then SIGKILL) when the
+   * timeout passes or signal aborts. `stopped` then rejects with the timeout
+   * or cancel error and `error()` returns it; `settled()` waits until the
+   * process has exited. Call clear() once the process finished on its own.
+   */
+  private watch(
+    proc: RunningProcess,
+    model: ClaudeModel,
+    timeout: number,
+    signal?: AbortSignal
+  ): ProcessWatch {
+    let error: ClaudeCodeError | null = null;
+    let termination: Promise<void> = Promise.resolve();
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    const onAbort = () => stop(new ClaudeCodeCancelledError(signal?.reason, { model }));
+    const clear = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    let reject!: (error: ClaudeCodeError) => void;
+    const stopped = new Promise<never>((_, r) => (reject = r));
+    stopped.catch(() => {}); // callers may not be waiting on it
+    const stop = (reason: ClaudeCodeError) => {
+      clear();
+      error = reason;
+      termination = terminate(proc, this.killGrace);
+      reject(reason);
+    };
 
-      // Add disallowed tools if specified
-      if (disallowedTools) {
-        const tools = Array.isArray(disallowedTools)
-          ? disallowedTools.join(',')
-          : disallowedTools;
-        args.push('--disallowedTools', tools);
+    timeoutId = setTimeout(() => stop(new ClaudeCodeTimeoutError(timeout, { model })), timeout);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    return { stopped, clear, error: () => error, settled: () => termination };
+  }
+
+  async invoke(options: ClaudeInvokeOptions): Promise<ClaudeInvokeResult> {
+    const { model = 'sonnet', cwd, sessionKey } = options;
+
+    const startTime = Date.now();
+    let tempDir: string | null = null;
+    let capture: ChangeCapture | null = null;
+
+    try {
+      const truncated = this.truncateInput(options);
+      if (options.files && (cwd || sessionKey)) {
+        throw new ClaudeCodeConfigError('files can only be staged into a temp workspace');
       }
 
-      // Determine working directory
-      let workDir: string;
-      if (cwd) {
-        workDir = resolve(cwd);
+      const recorded = this.cassette?.lookup(truncated);
+      if (recorded) return this.replayResult(recorded);
+
+      let result: ClaudeInvokeResult;
+      if (sessionKey) {
+        result = await this.sessions.withLock(sessionKey, () =>
+          this.invokeInSession(sessionKey, truncated)
+        );
       } else {
-        // Create isolated temp workspace
-        const baseTmpDir = process.env.TMPDIR || tmpdir();
-        tempDir = await mkdtemp(join(baseTmpDir, 'claude-code-'));
-        workDir = tempDir;
-        logger.debug(`[claude-code] created temp workspace: ${tempDir}`);
+        const workspace = await this.prepareWorkspace(cwd);
+        tempDir = workspace.tempDir;
+        if (options.files) {
+          await this.writeWorkspaceFiles(workspace.workDir, options.files);
+        }
+        capture = await this.startCapture(options, workspace.workDir);
+
+        result = await this.execute(truncated, capture?.workDir ?? workspace.workDir);
+        if (capture) {
+          await this.finishCapture(capture, result);
+        }
       }
+      await this.cassette?.record(truncated, result);
+      return result;
+    } catch (error) {
+      return this.buildFailure(model, error, Date.now() - startTime);
+    } finally {
+      await capture?.dispose();
+      // Clean up temp workspace (only if we created it)
+      await this.cleanupWorkspace(tempDir);
+    }
+  }
+
+  /**
+   * Invoke within a persistent session, resuming the previous CLI session if any.
+   * Falls back to a fresh session when resume fails.
+   */
+  private async invokeInSession(
+    key: string,
+    options: ClaudeInvokeOptions
+  ): Promise<ClaudeInvokeResult> {
+    const existing = this.sessions.get(key);
+    if (!existing) {
+      // An expired record not swept yet still owns its workspace
+      await this.sessions.delete(key);
+    }
+    const { workspace, owned } = await this.sessions.workspaceFor(
+      key,
+      options.cwd ? resolve(options.cwd) : undefined
+    );
+
+    // JSON output is needed to learn the session id; `output` stays plain text
+    const sessionOptions: ClaudeInvokeOptions = { ...options, outputFormat: 'json' };
 
-      logger.info(`[claude-code] invoking model=${model} cwd=${workDir}`);
-      logger.debug(`[claude-code] prompt preview: ${truncated.slice(0, 200)}...`);
+    let result = await this.execute(
+      sessionOptions,
+      workspace,
+      existing?.sessionId,
+      existing?.account
+    );
 
-      proc = Bun.spawn(args, {
-        cwd: workDir,
-        stdout: 'pipe',
-        stderr: 'pipe',
+    if (existing && result.status === 'exit_error') {
+      logger.warn(`[claude-code] resume failed for session ${key}, starting fresh`);
+      await this.sessions.forget(key);
+      result = await this.execute(sessionOptions, workspace);
+    }
+
+    if (result.status === 'success' && result.sessionId) {
+      await this.sessions.set(key, {
+        sessionId: result.sessionId,
+        workspace,
+        ownsWorkspace: owned,
+        lastUsed: Date.now(),
+        account: result.account,
       });
+    } else if (!this.sessions.get(key) && owned) {
+      // First turn failed, nothing to resume later
+      await rm(workspace, { recursive: true, force: true }).catch(() => {});
+    }
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          try {
-            if (proc) proc.kill();
-          } catch {
-            // Process already exited
-          }
-          reject(new Error(`ClaudeCodeTimeout: exceeded ${timeout / 1000}s`));
-        }, timeout);
+    return result;
+  }
+
+  /**
+   * Current queue state (running and waiting calls per lane and model)
+   */
+  getQueueDepth(): QueueDepth {
+    return this.queue.getDepth();
+  }
+
+  /**
+   * Invocation metrics since start (counts, latencies, queue wait, tokens)
+   */
+  getStats(): ClaudeCodeStats {
+    return this.metrics.getStats(this.queue.getDepth());
+  }
+
+  /**
+   * getStats() in Prometheus text exposition format
+   */
+  getPrometheusMetrics(): string {
+    return renderPrometheus(this.getStats());
+  }
+
+  /**
+   * Warm process pool state, or null when the pool is disabled
+   */
+  getPoolStatus(): ProcessPoolStatus | null {
+    return this.pool?.getStatus() ?? null;
+  }
+
+  private recordMetrics(
+    model: ClaudeModel,
+    result: ClaudeInvokeResult,
+    slot: QueueSlot | null
+  ): void {
+    const queueWait =
+      slot?.waited ??
+      (result.error instanceof ClaudeCodeQueueTimeoutError ? result.error.queueTimeout : undefined);
+    this.metrics.record(model, result, queueWait);
+
+    if (result.status === 'success') {
+      this.recentFailures.delete(model);
+    } else if (result.status !== 'config_error' && result.status !== 'cancelled') {
+      // Config errors and cancels come from the caller, not a sign the model is unhealthy
+      this.recentFailures.set(model, {
+        model,
+        status: result.status,
+        message: result.error?.message ?? result.status,
+        at: Date.now(),
+        resetAt:
+          result.error instanceof ClaudeCodeUsageLimitError ? result.error.resetAt : undefined,
       });
+    }
+  }
 
-      const [output, stderr, exitCode] = await Promise.race([
-        Promise.all([
-          new Response(proc.stdout as ReadableStream).text(),
-          new Response(proc.stderr as ReadableStream).text(),
-          proc.exited,
-        ]),
-        timeoutPromise,
-      ]);
+  /**
+   * Last failure per model, for models that have not succeeded since
+   */
+  getRecentFailures(): ClaudeRecentFailure[] {
+    return [...this.recentFailures.values()];
+  }
+
+  /**
+   * Apply changes from an isolated run to the real checkout and remove the
+   * isolated workspace. Throws if the patch does not apply cleanly.
+   */
+  async applyChanges(changes: WorkspaceChanges): Promise<void> {
+    await applyChanges(changes);
+    logger.info(
+      `[claude-code] applied ${changes.files.length} changed files to ${changes.baseDir}`
+    );
+  }
+
+  /**
+   * Drop the isolated workspace of a run without applying its changes
+   */
+  async discardChanges(changes: WorkspaceChanges): Promise<void> {
+    await discardChanges(changes);
+  }
+
+  /**
+   * Drop a session and remove its workspace
+   */
+  async endSession(key: string): Promise<void> {
+    await this.sessions.delete(key);
+  }
+
+  /**
+   * Run the CLI in workDir (prompt must already be truncated). With accounts,
+   * an auth error or usage limit moves the call to the next account in
+   * rotation; a resumed session cannot follow it there and starts fresh.
+   */
+  private async execute(
+    options: ClaudeInvokeOptions,
+    workDir: string,
+    resumeSessionId?: string,
+    preferredAccount?: string
+  ): Promise<ClaudeInvokeResult> {
+    if (!this.accounts) return this.executeOn(options, workDir, resumeSessionId, null);
+
+    let resume = resumeSessionId;
+    let preferred = preferredAccount;
+    // Each account is tried at most once per call, even if it is back in
+    // rotation by the time the next one fails
+    const tried = new Set<string>();
+    for (;;) {
+      const account = this.accounts.acquire(preferred, tried);
+      tried.add(account.name);
+      let result: ClaudeInvokeResult;
+      try {
+        result = await this.executeOn(options, workDir, resume, account);
+      } finally {
+        account.release();
+      }
+      result = this.reportAccount(account, result);
 
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = null;
+      const limited = result.status === 'auth_error' || result.status === 'usage_limit';
+      if (!limited || !this.accounts.hasAvailable(tried) || options.signal?.aborted) {
+        return result;
       }
+      logger.warn(`[claude-code] ${result.status} on account ${account.name}, failing over`);
+      resume = undefined;
+      preferred = undefined;
+    }
+  }
 
-      const duration = Date.now() - startTime;
-
-      // Check for auth errors in stderr
-      if (isAuthError(stderr) || (exitCode !== 0 && isAuthError(output))) {
-        this.handleAuthError(stderr || output);
-        return {
-          output: '',
-          exitCode: exitCode ?? 1,
-          stderr: stderr || 'OAuth token expired. Run: claude login',
-          duration,
-        };
+  /**
+   * Let the account pool see a call's outcome and tag the result with the account
+   */
+  private reportAccount(
+    account: AccountLease | null,
+    result: ClaudeInvokeResult
+  ): ClaudeInvokeResult {
+    if (!account || !this.accounts) return result;
+    this.accounts.report(account.name, result);
+    return { ...result, account: account.name };
+  }
+
+  /**
+   * Spawn the CLI in workDir, on the given account, and wait for it
+   */
+  private async executeOn(
+    options: ClaudeInvokeOptions,
+    workDir: string,
+    resumeSessionId: string | undefined,
+    account: AccountLease | null
+  ): Promise<ClaudeInvokeResult> {
+    const {
+      model = 'sonnet',
+      timeout = this.defaultTimeout,
+      outputFormat = 'text',
+      priority = 'normal',
+    } = options;
+
+    let startTime = Date.now();
+    let slot: QueueSlot | null = null;
+    let proc: RunningProcess | null = null;
+    let watch: ProcessWatch | null = null;
+    let mcp: { args: string[]; cleanup: () => Promise<void> } | null = null;
+    let result: ClaudeInvokeResult;
+
+    try {
+      const resolved = this.applyProfile(options);
+      mcp = await this.prepareMcp(resolved);
+      slot = await this.queue.acquire(model, priority, options.signal);
+      if (slot.waited > 0) {
+        logger.debug(`[claude-code] waited ${slot.waited}ms in ${priority} queue`);
       }
+      startTime = Date.now();
 
-      if (exitCode !== 0) {
-        logger.error(`[claude-code] exit=${exitCode}`);
-        logger.error(`[claude-code] stderr: ${stderr.slice(0, 500)}`);
+      // Plain calls go to a warm process when one is ready, otherwise spawn
+      const pooled =
+        this.pool && !resumeSessionId && !mcp && isPoolable(resolved)
+          ? await this.pool.run(
+              model,
+              this.systemPromptArgs(resolved),
+              options.messages ?? options.prompt ?? '',
+              { timeout, signal: options.signal }
+            )
+          : null;
+      if (pooled) {
+        const { output, stderr, exitCode, metadata } = pooled;
+        const duration = Date.now() - startTime;
+        logger.info(`[claude-code] invoked model=${model} on warm process`);
+        result = this.buildResult(model, output, stderr, exitCode, duration, metadata);
       } else {
-        logger.info(`[claude-code] completed in ${duration}ms`);
-      }
+        // Messages go in as stream-json, which the CLI only pairs with stream-json output
+        const streamJson = !!options.messages;
+        const extraArgs = streamJson
+          ? ['--output-format', 'stream-json', '--verbose']
+          : outputFormat === 'json'
+            ? ['--output-format', 'json']
+            : [];
+        if (resumeSessionId) {
+          extraArgs.push('--resume', resumeSessionId);
+        }
+        if (mcp) {
+          extraArgs.push(...mcp.args);
+        }
+        const args = this.buildArgs(resolved, extraArgs);
 
-      return {
-        output: output.trim(),
-        exitCode: exitCode ?? 0,
-        stderr: stderr.trim(),
-        duration,
-      };
+        logger.info(`[claude-code] invoking model=${model} cwd=${workDir}`);
+        logger.debug(`[claude-code] prompt preview: ${this.promptPreview(options)}...`);
+
+        proc = this.spawnCli(args, options, workDir, account);
+        watch = this.watch(proc, model, timeout, options.signal);
+
+        const finished = Promise.all([
+          new Response(proc.stdout).text(),
+          new Response(proc.stderr).text(),
+          proc.exited,
+        ]);
+        let output: string;
+        let stderr: string;
+        let exitCode: number;
+        try {
+          [output, stderr, exitCode] = await Promise.race([finished, watch.stopped]);
+        } catch (error) {
+          // The kill closes the pipes, so what the CLI printed so far can be read
+          const [, killedStderr] = await finished.catch(() => ['', '']);
+          throw stoppedError(error, killedStderr, Date.now() - startTime);
+        }
+        watch.clear();
+
+        const duration = Date.now() - startTime;
+        if (streamJson) {
+          const parser = new StreamJsonParser();
+          for (const line of output.split('\n')) {
+            parser.parse(line);
+          }
+          const { envelope } = parser;
+          result = this.buildResult(
+            model,
+            envelope?.result ?? parser.text,
+            stderr,
+            exitCode,
+            duration,
+            envelope?.metadata
+          );
+        } else if (outputFormat === 'json') {
+          // Fall back to raw stdout if the CLI did not print an envelope
+          const envelope = parseJsonOutput(output);
+          result = envelope
+            ? this.buildResult(
+                model,
+                envelope.result,
+                stderr,
+                exitCode,
+                duration,
+                envelope.metadata
+              )
+            : this.buildResult(model, output, stderr, exitCode, duration);
+        } else {
+          result = this.buildResult(model, output, stderr, exitCode, duration);
+        }
+      }
     } catch (error) {
-      const duration = Date.now() - startTime;
-      const msg = error instanceof Error ? error.message : String(error);
+      result = this.buildFailure(model, error, Date.now() - startTime);
+    } finally {
+      watch?.clear();
+      // Ensure process is killed, and wait for a terminated one to be gone
+      this.killProcess(proc);
+      await watch?.settled();
+      slot?.release();
+      await mcp?.cleanup().catch(() => {});
+    }
 
-      // Check if timeout error contains auth issues
-      if (isAuthError(msg)) {
-        this.handleAuthError(msg);
+    this.recordMetrics(model, result, slot);
+    return result;
+  }
+
+  /**
+   * Streaming invocation using `--output-format stream-json`.
+   * Yields text, tool_use and tool_result events as the CLI produces them,
+   * then exactly one final `result` event. Breaking out of the loop early
+   * kills the process and cleans up the workspace.
+   */
+  async *invokeStream(options: ClaudeInvokeOptions): AsyncGenerator<ClaudeStreamEvent> {
+    const { model = 'sonnet', timeout = this.defaultTimeout, cwd, priority = 'normal' } = options;
+
+    let startTime = Date.now();
+    let tempDir: string | null = null;
+    let slot: QueueSlot | null = null;
+    let proc: RunningProcess | null = null;
+    let watch: ProcessWatch | null = null;
+    let mcp: { args: string[]; cleanup: () => Promise<void> } | null = null;
+    let capture: ChangeCapture | null = null;
+    let account: AccountLease | null = null;
+
+    try {
+      const truncated = this.truncateInput(options);
+      // Resuming needs the session id from the result envelope, not streamed
+      if (options.sessionKey) {
+        throw new ClaudeCodeConfigError('sessionKey is not supported by invokeStream');
+      }
+      const recorded = this.cassette?.lookup(truncated);
+      if (recorded) {
+        const result = this.replayResult(recorded);
+        if (result.output) yield { type: 'text', text: result.output };
+        yield { type: 'result', result };
+        return;
       }
 
-      logger.error(`[claude-code] invocation failed: ${msg}`);
+      const resolved = this.applyProfile(truncated);
+      mcp = await this.prepareMcp(resolved);
+      const args = this.buildArgs(resolved, [
+        '--output-format',
+        'stream-json',
+        '--verbose',
+        '--include-partial-messages',
+        ...(mcp?.args ?? []),
+      ]);
 
-      return {
-        output: '',
-        exitCode: 1,
-        stderr: msg,
-        duration,
-      };
-    } finally {
-      // Ensure timeout is cleared
-      if (timeoutId) {
-        clearTimeout(timeoutId);
+      if (options.files && cwd) {
+        throw new ClaudeCodeConfigError('files can only be staged into a temp workspace');
       }
+      const workspace = await this.prepareWorkspace(cwd);
+      tempDir = workspace.tempDir;
+      if (options.files) {
+        await this.writeWorkspaceFiles(workspace.workDir, options.files);
+      }
+      capture = await this.startCapture(options, workspace.workDir);
+      const workDir = capture?.workDir ?? workspace.workDir;
 
-      // Ensure process is killed
-      if (proc) {
-        try {
-          proc.kill();
-        } catch {
-          // Process already exited
+      slot = await this.queue.acquire(model, priority, options.signal);
+      startTime = Date.now();
+      // No failover here: events from the first account may already be out
+      account = this.accounts?.acquire() ?? null;
+
+      logger.info(`[claude-code] streaming model=${model} cwd=${workDir}`);
+      logger.debug(`[claude-code] prompt preview: ${this.promptPreview(resolved)}...`);
+
+      const child = this.spawnCli(args, resolved, workDir, account);
+      proc = child;
+
+      watch = this.watch(child, model, timeout, options.signal);
+
+      const stderrPromise = new Response(child.stderr).text();
+      const parser = new StreamJsonParser();
+
+      for await (const line of readLines(child.stdout)) {
+        for (const event of parser.parse(line)) {
+          yield event;
         }
       }
 
-      // Clean up temp workspace (only if we created it)
-      if (tempDir) {
-        try {
-          await rm(tempDir, { recursive: true, force: true });
-          logger.debug(`[claude-code] cleaned up temp workspace: ${tempDir}`);
-        } catch (cleanupError) {
-          logger.warn(`[claude-code] failed to cleanup ${tempDir}: ${cleanupError}`);
-        }
+      const [stderr, exitCode] = await Promise.all([stderrPromise, child.exited]);
+      watch.clear();
+
+      const stopped = watch.error();
+      if (stopped) {
+        throw stoppedError(stopped, stderr, Date.now() - startTime);
+      }
+
+      const output = parser.envelope?.result ?? parser.text;
+      const result = this.reportAccount(
+        account,
+        this.buildResult(
+          model,
+          output,
+          stderr,
+          exitCode,
+          Date.now() - startTime,
+          parser.envelope?.metadata
+        )
+      );
+      this.recordMetrics(model, result, slot);
+      if (capture) {
+        await this.finishCapture(capture, result);
       }
+      await this.cassette?.record(truncated, result);
+      yield { type: 'result', result };
+    } catch (error) {
+      const result = this.reportAccount(
+        account,
+        this.buildFailure(model, error, Date.now() - startTime)
+      );
+      this.recordMetrics(model, result, slot);
+      yield { type: 'result', result };
+    } finally {
+      watch?.clear();
+      this.killProcess(proc);
+      await watch?.settled();
+      account?.release();
+      slot?.release();
+      await mcp?.cleanup().catch(() => {});
+      await capture?.dispose();
+      await this.cleanupWorkspace(tempDir);
     }
   }
 
   /**
-   * Convenience method for simple text generation (used by model provider)
+   * Build result from a finished process, classifying auth and limit errors;
+   * an auth error also marks the credentials lost
+   */
+  private buildResult(
+    model: ClaudeModel,
+    output: string,
+    stderr: string,
+    exitCode: number | null,
+    duration: number,
+    metadata: ClaudeResultMetadata = {}
+  ): ClaudeInvokeResult {
+    const result = this.classifyResult(model, output, stderr, exitCode, duration, metadata);
+    if (result.status === 'auth_error') {
+      this.handleAuthError(stderr || output);
+    }
+    return result;
+  }
+
+  /**
+   * Result for CLI output without side effects on auth state, so replayed
+   * output can be classified too
    */
-  async generateText(prompt: string, model: 'sonnet' | 'opus' | 'haiku' = 'sonnet'): Promise<string> {
-    const result = await this.invoke({ prompt, model });
+  private classifyResult(
+    model: ClaudeModel,
+    output: string,
+    stderr: string,
+    exitCode: number | null,
+    duration: number,
+    metadata: ClaudeResultMetadata = {}
+  ): ClaudeInvokeResult {
+    const base = {
+      output: output.trim(),
+      exitCode,
+      stderr: stderr.trim(),
+      duration,
+      ...metadata,
+    };
+    const details = { model, exitCode, stderr: base.stderr, duration };
 
-    if (result.exitCode !== 0) {
-      throw new Error(`ClaudeCodeError: ${result.stderr || 'Unknown error'}`);
+    // Check for auth errors in stderr
+    if (isAuthError(stderr) || (exitCode !== 0 && isAuthError(output))) {
+      return { ...base, status: 'auth_error', error: new ClaudeCodeAuthError(details) };
     }
 
-    if (!result.output || result.output.length === 0) {
-      throw new Error('EmptyOutput: Claude Code returned nothing');
+    const kind = this.limitKind(base.output, base.stderr, exitCode === 0 && !metadata.isError);
+    if (kind) {
+      const resetAt = parseResetTime(`${stderr}\n${output}`);
+      const error = new ClaudeCodeUsageLimitError(kind, resetAt, details);
+      logger.warn(`[claude-code] ${error.message} on model=${model}`);
+      return { ...base, status: 'usage_limit', error };
+    }
+
+    if (exitCode !== 0) {
+      logger.error(`[claude-code] exit=${exitCode}`);
+      logger.error(`[claude-code] stderr: ${stderr.slice(0, 500)}`);
+      return { ...base, status: 'exit_error', error: new ClaudeCodeExitError(details) };
+    }
+
+    if (metadata.usage) {
+      const { inputTokens, outputTokens } = metadata.usage;
+      logger.info(
+        `[claude-code] completed in ${duration}ms (turns=${metadata.numTurns ?? '?'} in=${inputTokens} out=${outputTokens})`
+      );
+    } else {
+      logger.info(`[claude-code] completed in ${duration}ms`);
     }
 
+    return { ...base, status: 'success' };
+  }
+
+  /**
+   * Detect usage limit, rate limit or overload in a finished process
+   */
+  private limitKind(
+    output: string,
+    stderr: string,
+    succeeded: boolean
+  ): Exclude<ClaudeErrorKind, 'auth'> | null {
+    if (succeeded) {
+      // Some CLI versions print the usage limit notice as a normal reply
+      return output.length < 200 && /usage limit reached\|\d{10}/i.test(output)
+        ? 'usage_limit'
+        : null;
+    }
+    const kind = classifyError(`${stderr}\n${output}`);
+    return kind === 'auth' ? null : kind;
+  }
+
+  /**
+   * Result of a call served from the cassette, classified like a live run but
+   * without touching auth state. Replays are not recorded in metrics.
+   */
+  private replayResult(entry: CassetteEntry): ClaudeInvokeResult {
+    logger.debug(`[claude-code] replaying model=${entry.model} prompt ${entry.promptHash}`);
+    const { model, output, stderr, exitCode, duration, metadata } = entry;
+    return this.classifyResult(model, output, stderr, exitCode, duration, metadata);
+  }
+
+  /**
+   * Build result for a timeout, cancel, queue timeout, config error or spawn failure
+   */
+  private buildFailure(model: ClaudeModel, error: unknown, duration: number): ClaudeInvokeResult {
+    const base = {
+      output: '',
+      exitCode: null,
+      stderr: error instanceof ClaudeCodeError ? error.stderr : '',
+      duration,
+    };
+
+    if (error instanceof ClaudeCodeTimeoutError) {
+      logger.error(`[claude-code] invocation timed out: ${error.message}`);
+      return { ...base, status: 'timeout', error };
+    }
+    if (error instanceof ClaudeCodeCancelledError) {
+      logger.info(`[claude-code] invocation ${error.message}`);
+      return { ...base, status: 'cancelled', error };
+    }
+    if (error instanceof ClaudeCodeQueueTimeoutError) {
+      logger.error(`[claude-code] invocation not started: ${error.message}`);
+      return { ...base, status: 'queue_timeout', error };
+    }
+    if (error instanceof ClaudeCodeConfigError) {
+      logger.error(`[claude-code] invalid invocation config: ${error.message}`);
+      return { ...base, status: 'config_error', error };
+    }
+
+    const msg = error instanceof Error ? error.message : String(error);
+    logger.error(`[claude-code] invocation failed: ${msg}`);
+
+    return {
+      ...base,
+      status: 'spawn_error',
+      error: new ClaudeCodeSpawnError(msg, { model, duration, cause: error }),
+    };
+  }
+
+  /**
+   * Describe an image (URL, data URI or bytes) for IMAGE_DESCRIPTION. The
+   * image is staged into the temp workspace and read with only Read allowed.
+   * Throws ClaudeCodeImageError for bad input, or the invocation's error.
+   */
+  async describeImage(
+    image: ImageInput,
+    options: { prompt?: string; model?: ClaudeModel; signal?: AbortSignal } = {}
+  ): Promise<ImageDescription> {
+    const { model = 'sonnet' } = options;
+    const { data, mimeType } = await loadImage(image, { maxBytes: this.maxImageBytes });
+    const path = `image.${IMAGE_TYPES[mimeType]}`;
+    logger.debug(`[claude-code] describing ${mimeType} image (${data.length} bytes)`);
+
+    const result = await this.invokeWithRetry({
+      prompt: imagePrompt(path, options.prompt),
+      model,
+      files: [{ path, data }],
+      allowedTools: ['Read'],
+      disallowedTools: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash', 'WebFetch'],
+      priority: 'interactive',
+      signal: options.signal,
+    });
+
+    if (result.status !== 'success') {
+      throw result.error ?? new ClaudeCodeError(result.stderr || 'Unknown error', { model });
+    }
+    if (!result.output) {
+      throw new ClaudeCodeEmptyOutputError({
+        model,
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+        duration: result.duration,
+      });
+    }
+    return parseImageDescription(result.output);
+  }
+
+  /**
+   * Convenience method for simple text generation (used by model provider)
+   */
+  async generateText(
+    prompt: string,
+    model: 'sonnet' | 'opus' | 'haiku' = 'sonnet',
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const output = await this.generateRaw(prompt, model, options);
+
     // If response doesn't start with <response>, wrap it
-    if (!result.output.startsWith('<response>')) {
-      return `<response>\n${result.output}\n</response>`;
+    if (!output.startsWith('<response>')) {
+      return `<response>\n${output}\n</response>`;
     }
 
-    return result.output;
+    return output;
   }
 
   /**
-   * Research method (used by ResearchService)
-   * Returns output with XML tags stripped (user-facing content)
+   * Generate a JSON value validated against request.schema (used by
+   * OBJECT_SMALL / OBJECT_LARGE). Output is never wrapped in <response>.
+   */
+  async generateObject(
+    request: ObjectRequest,
+    model: ClaudeModel = 'sonnet',
+    options: { signal?: AbortSignal } = {}
+  ): Promise<unknown> {
+    return generateObjectWith(request, model, (prompt) => this.generateRaw(prompt, model, options));
+  }
+
+  /**
+   * Run an interactive generation with retries and model fallback, returning
+   * raw output. Throws the typed error on failure or empty output.
    */
-  async research(
+  private async generateRaw(
     prompt: string,
-    options: {
-      cwd: string;
-      model?: 'sonnet' | 'opus' | 'haiku';
-      allowedTools?: string[] | string;
-      disallowedTools?: string[] | string;
-      timeout?: number;
+    model: ClaudeModel,
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const { onStreamChunk, system: systemPrompt, signal } = options;
+    // Streamed chunks cannot be taken back, so a second attempt would append
+    // another answer to them: no retry or fallback once one is out
+    let streamed = false;
+    const run = onStreamChunk
+      ? (o: ClaudeInvokeOptions) =>
+          this.streamText(o, (chunk) => {
+            streamed = true;
+            return onStreamChunk(chunk);
+          })
+      : (o: ClaudeInvokeOptions) => this.invoke(o);
+
+    // Chat replies go ahead of queued research jobs
+    const result = await this.invokeWithFallback(
+      { prompt, systemPrompt, model, priority: 'interactive', signal },
+      run,
+      () => !streamed
+    );
+
+    if (result.status !== 'success') {
+      throw result.error ?? new ClaudeCodeError(result.stderr || 'Unknown error', { model });
+    }
+
+    if (!result.output || result.output.length === 0) {
+      throw new ClaudeCodeEmptyOutputError({
+        model,
+        exitCode: result.exitCode,
+        stderr: result.stderr,
+        duration: result.duration,
+      });
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Run with retries on rate limit, overload and short usage limits.
+   * Waits until the reported reset time when it is within retry.maxDelay.
+   * `canRetry` can rule out another attempt after a run.
+   */
+  private async invokeWithRetry(
+    options: ClaudeInvokeOptions,
+    run: (options: ClaudeInvokeOptions) => Promise<ClaudeInvokeResult> = (o) => this.invoke(o),
+    canRetry: () => boolean = () => true
+  ): Promise<ClaudeInvokeResult> {
+    const { maxRetries } = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await run(options);
+      if (!(result.error instanceof ClaudeCodeUsageLimitError) || !canRetry()) return result;
+
+      const { kind, resetAt } = result.error;
+      // Without a reset time there is nothing sensible to wait for
+      if (kind === 'usage_limit' && resetAt === undefined) return result;
+
+      const wait =
+        attempt < maxRetries ? computeBackoff(attempt, this.retryPolicy, resetAt) : null;
+      if (wait === null || options.signal?.aborted) return result;
+
+      logger.warn(
+        `[claude-code] ${kind} on model=${options.model}, retry ${attempt + 1}/${maxRetries} in ${Math.round(wait / 1000)}s`
+      );
+      // An abort ends the wait early; the next attempt then returns 'cancelled'
+      await delay(wait, options.signal);
     }
+  }
+
+  /**
+   * Run with retries, then fall back down the fallbackModels chain
+   * (e.g., opus -> sonnet -> haiku) while limits persist
+   */
+  private async invokeWithFallback(
+    options: ClaudeInvokeOptions,
+    run?: (options: ClaudeInvokeOptions) => Promise<ClaudeInvokeResult>,
+    canRetry: () => boolean = () => true
+  ): Promise<ClaudeInvokeResult> {
+    const models = fallbackChain(options.model ?? 'sonnet', this.fallbackModels);
+
+    let result: ClaudeInvokeResult | null = null;
+    for (const model of models) {
+      if (result) {
+        logger.warn(`[claude-code] falling back to model=${model}`);
+      }
+      result = await this.invokeWithRetry({ ...options, model }, run, canRetry);
+      if (result.status !== 'usage_limit' || !canRetry()) break;
+    }
+    return result!;
+  }
+
+  /**
+   * Run invokeStream(), forwarding text chunks to callback, and return the final result
+   */
+  private async streamText(
+    options: ClaudeInvokeOptions,
+    onStreamChunk: ClaudeStreamCallback
   ): Promise<ClaudeInvokeResult> {
-    const result = await this.invoke({
+    for await (const event of this.invokeStream(options)) {
+      if (event.type === 'text') {
+        await onStreamChunk(event.text);
+      } else if (event.type === 'result') {
+        return event.result;
+      }
+    }
+    throw new ClaudeCodeError('stream ended without result', { model: options.model });
+  }
+
+  /**
+   * Research method (used by ResearchService)
+   * Returns output with XML tags stripped (user-facing content)
+   */
+  async research(prompt: string, options: ResearchOptions): Promise<ClaudeInvokeResult> {
+    const result = await this.invokeWithRetry({
       prompt,
       model: options.model || 'sonnet',
       timeout: options.timeout || 600000, // 10 min default for research
       cwd: options.cwd,
       allowedTools: options.allowedTools,
       disallowedTools: options.disallowedTools,
+      profile: options.profile,
+      sessionKey: options.sessionKey,
+      mcpServers: options.mcpServers,
+      captureChanges: options.captureChanges,
+      isolation: options.isolation,
+      priority: 'background',
+      signal: options.signal,
     });
 
     // Strip XML wrapper tags from output (user-facing content)
@@ -354,4 +1540,46 @@ ${tail}`;
 
     return result;
   }
+
+  /**
+   * Start research as a background job and return its id right away. The
+   * job's state and result are persisted (see getJob); onComplete and the
+   * CLAUDE_CODE_JOB_FINISHED runtime event report the final status.
+   */
+  async submitResearch(
+    prompt: string,
+    options: Omit<ResearchOptions, 'signal'> & { onComplete?: ClaudeJobCallback }
+  ): Promise<string> {
+    const { onComplete, ...researchOptions } = options;
+    const job = await this.jobs.submit(
+      prompt,
+      researchOptions,
+      (signal) => this.research(prompt, { ...researchOptions, signal }),
+      onComplete
+    );
+    logger.info(`[claude-code] submitted research job ${job.id}`);
+    return job.id;
+  }
+
+  /**
+   * Get a background job with its status and, once finished, its result
+   */
+  getJob(id: string): ClaudeJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Background jobs newest first, optionally filtered by status
+   */
+  listJobs(filter?: JobFilter): ClaudeJob[] {
+    return this.jobs.list(filter);
+  }
+
+  /**
+   * Cancel a running job; resolves once it has stopped.
+   * Returns false if the job is unknown or already finished.
+   */
+  async cancelJob(id: string): Promise<boolean> {
+    return this.jobs.cancel(id);
+  }
 }
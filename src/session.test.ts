@@ -0,0 +1,132 @@
+/**
+ * Unit tests for session persistence and expiry
+ *
+ * Test cases:
+ * - Sessions persist to the store file and load back
+ * - Expired sessions are not returned and are swept with their workspace,
+ *   also when they expired while the agent was down
+ * - Sessions whose workspace is gone are dropped on load
+ * - Caller-supplied cwd is never removed
+ * - withLock serializes turns for the same key
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SessionManager } from './session';
+
+let dir: string;
+let storePath: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'claude-code-session-test-'));
+  storePath = join(dir, 'store', 'sessions.json');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('SessionManager', () => {
+  test('persists and reloads sessions', async () => {
+    const manager = new SessionManager(storePath, 60000);
+    const { workspace, owned } = await manager.workspaceFor('room-1');
+    expect(owned).toBe(true);
+    await manager.set('room-1', {
+      sessionId: 'abc',
+      workspace,
+      ownsWorkspace: owned,
+      lastUsed: Date.now(),
+    });
+
+    const reloaded = new SessionManager(storePath, 60000);
+    await reloaded.load();
+    expect(reloaded.get('room-1')?.sessionId).toBe('abc');
+    expect((await reloaded.workspaceFor('room-1')).workspace).toBe(workspace);
+
+    await reloaded.delete('room-1');
+    expect(await exists(workspace)).toBe(false);
+  });
+
+  test('expires idle sessions and removes owned workspace', async () => {
+    const manager = new SessionManager(storePath, 1000);
+    const { workspace } = await manager.workspaceFor('room-1');
+    await manager.set('room-1', {
+      sessionId: 'abc',
+      workspace,
+      ownsWorkspace: true,
+      lastUsed: Date.now() - 5000,
+    });
+
+    expect(manager.get('room-1')).toBeUndefined();
+    expect(await manager.sweep()).toBe(1);
+    expect(manager.size).toBe(0);
+    expect(await exists(workspace)).toBe(false);
+  });
+
+  test('removes expired workspaces on load', async () => {
+    const manager = new SessionManager(storePath, 1000);
+    const { workspace } = await manager.workspaceFor('room-1');
+    await manager.set('room-1', {
+      sessionId: 'abc',
+      workspace,
+      ownsWorkspace: true,
+      lastUsed: Date.now() - 5000,
+    });
+
+    const reloaded = new SessionManager(storePath, 1000);
+    await reloaded.load();
+    expect(reloaded.size).toBe(0);
+    expect(await exists(workspace)).toBe(false);
+    expect(JSON.parse(await readFile(storePath, 'utf-8'))).toEqual({});
+  });
+
+  test('drops sessions with missing workspace on load', async () => {
+    const manager = new SessionManager(storePath, 60000);
+    await manager.set('room-1', {
+      sessionId: 'abc',
+      workspace: join(dir, 'gone'),
+      ownsWorkspace: true,
+      lastUsed: Date.now(),
+    });
+
+    const reloaded = new SessionManager(storePath, 60000);
+    await reloaded.load();
+    expect(reloaded.get('room-1')).toBeUndefined();
+  });
+
+  test('never removes caller-supplied cwd', async () => {
+    const manager = new SessionManager(storePath, 60000);
+    const { workspace, owned } = await manager.workspaceFor('room-1', dir);
+    expect(workspace).toBe(dir);
+    expect(owned).toBe(false);
+
+    await manager.set('room-1', { sessionId: 'abc', workspace, ownsWorkspace: owned, lastUsed: 0 });
+    await manager.sweep();
+    expect(await exists(dir)).toBe(true);
+  });
+
+  test('withLock serializes calls for the same key', async () => {
+    const manager = new SessionManager(storePath, 60000);
+    const order: string[] = [];
+    const slow = manager.withLock('room-1', async () => {
+      await Bun.sleep(20);
+      order.push('first');
+    });
+    const fast = manager.withLock('room-1', async () => {
+      order.push('second');
+    });
+    await Promise.all([slow, fast]);
+    expect(order).toEqual(['first', 'second']);
+  });
+});
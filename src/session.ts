@@ -0,0 +1,167 @@
+import { logger } from '@elizaos/core';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+/**
+ * Persisted mapping from a session key (e.g., ElizaOS roomId) to a CLI session
+ */
+export interface SessionRecord {
+  /** CLI session id, passed to --resume */
+  sessionId: string;
+  /** Working directory (the CLI stores sessions per project directory) */
+  workspace: string;
+  /** Whether the workspace was created by the manager (removed on expiry) */
+  ownsWorkspace: boolean;
+  /** Last use timestamp (ms since epoch) */
+  lastUsed: number;
+  /** Account the CLI session lives in (`accounts` setting only) */
+  account?: string;
+}
+
+/**
+ * Maps session keys to Claude Code CLI sessions so later turns can use
+ * `--resume`. Records are persisted as JSON so they survive agent restarts;
+ * idle sessions expire after `ttl` ms and their workspace is removed.
+ */
+export class SessionManager {
+  private sessions = new Map<string, SessionRecord>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private storePath: string,
+    private ttl: number
+  ) {}
+
+  /**
+   * Load persisted sessions, dropping those whose workspace is gone and
+   * expired ones (removing their owned workspace)
+   */
+  async load(): Promise<void> {
+    let raw: Record<string, SessionRecord>;
+    try {
+      raw = JSON.parse(await readFile(this.storePath, 'utf-8'));
+    } catch {
+      return; // No store yet (or unreadable), start empty
+    }
+
+    const now = Date.now();
+    let dropped = 0;
+    for (const [key, record] of Object.entries(raw)) {
+      if (now - record.lastUsed > this.ttl) {
+        await this.removeWorkspace(record);
+        dropped++;
+        continue;
+      }
+      try {
+        await stat(record.workspace);
+        this.sessions.set(key, record);
+      } catch {
+        // Workspace removed (e.g., tmp cleaned on reboot)
+        dropped++;
+      }
+    }
+    if (dropped > 0) await this.save();
+    logger.debug(`[claude-code] loaded ${this.sessions.size} sessions from ${this.storePath}`);
+  }
+
+  /**
+   * Get an active session, or undefined if missing or expired
+   */
+  get(key: string): SessionRecord | undefined {
+    const record = this.sessions.get(key);
+    if (!record) return undefined;
+    if (Date.now() - record.lastUsed > this.ttl) return undefined;
+    return record;
+  }
+
+  /**
+   * Resolve workspace for a session: the existing one, cwd, or a new temp dir
+   */
+  async workspaceFor(key: string, cwd?: string): Promise<{ workspace: string; owned: boolean }> {
+    const existing = this.get(key);
+    if (existing) return { workspace: existing.workspace, owned: existing.ownsWorkspace };
+    if (cwd) return { workspace: cwd, owned: false };
+
+    const baseTmpDir = process.env.TMPDIR || tmpdir();
+    const workspace = await mkdtemp(join(baseTmpDir, 'claude-code-session-'));
+    logger.debug(`[claude-code] created session workspace: ${workspace}`);
+    return { workspace, owned: true };
+  }
+
+  async set(key: string, record: SessionRecord): Promise<void> {
+    this.sessions.set(key, record);
+    await this.save();
+  }
+
+  /**
+   * Forget a session id but keep its workspace (used when resume fails)
+   */
+  async forget(key: string): Promise<void> {
+    if (this.sessions.delete(key)) await this.save();
+  }
+
+  /**
+   * End a session and remove its workspace if owned
+   */
+  async delete(key: string): Promise<void> {
+    const record = this.sessions.get(key);
+    if (!record) return;
+    this.sessions.delete(key);
+    await this.removeWorkspace(record);
+    await this.save();
+  }
+
+  /**
+   * Remove expired sessions. Returns the number removed.
+   */
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    const expired = [...this.sessions.entries()].filter(([, r]) => now - r.lastUsed > this.ttl);
+    for (const [key, record] of expired) {
+      this.sessions.delete(key);
+      await this.removeWorkspace(record);
+    }
+    if (expired.length > 0) {
+      logger.debug(`[claude-code] expired ${expired.length} idle sessions`);
+      await this.save();
+    }
+    return expired.length;
+  }
+
+  /**
+   * Run fn exclusively for a key, so concurrent turns don't resume the same session twice
+   */
+  async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(fn);
+    this.locks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) this.locks.delete(key);
+    }
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private async removeWorkspace(record: SessionRecord): Promise<void> {
+    if (!record.ownsWorkspace) return;
+    try {
+      await rm(record.workspace, { recursive: true, force: true });
+    } catch (error) {
+      logger.warn(`[claude-code] failed to cleanup ${record.workspace}: ${error}`);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await mkdir(dirname(this.storePath), { recursive: true });
+      await writeFile(this.storePath, JSON.stringify(Object.fromEntries(this.sessions), null, 2));
+    } catch (error) {
+      logger.warn(`[claude-code] failed to save sessions to ${this.storePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the Claude Code status provider
+ *
+ * Test cases:
+ * - Formatting of auth, expiry, subscription, failures and queue
+ * - Field selection
+ * - Provider reports usage limits from recent failures
+ * - Failures clear after the model succeeds again
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { IAgentRuntime, Memory, State } from '@elizaos/core';
+import { claudeCodeStatusProvider, formatStatus } from './status';
+import { ClaudeCodeService } from './service';
+import { FakeProcessRunner } from './runner';
+import type { FakeResponse } from './runner';
+import type { QueueDepth } from './types';
+
+const NOW = 1_700_000_000_000;
+const HOUR = 3600000;
+
+const queue: QueueDepth = {
+  running: 1,
+  queued: 2,
+  byPriority: { interactive: 0, normal: 2, background: 0 },
+  byModel: {},
+};
+
+const auth = {
+  authenticated: true,
+  needsLogin: false,
+  expiresAt: NOW + 5 * HOUR + 20 * 60000,
+  subscriptionType: 'pro',
+};
+
+describe('formatStatus', () => {
+  test('renders all fields', () => {
+    const failures = [
+      {
+        model: 'opus' as const,
+        status: 'usage_limit' as const,
+        message: 'usage limit',
+        at: NOW - 2 * 60000,
+        resetAt: NOW + HOUR,
+      },
+    ];
+    const fields = ['auth', 'expiry', 'subscription', 'failures', 'queue'] as const;
+    expect(formatStatus([...fields], auth, failures, queue, NOW)).toBe(
+      [
+        '# Claude Code Status',
+        '- Auth: ok',
+        '- Token expires in: 5h 20m',
+        '- Subscription: pro',
+        '- Recent problems: opus usage limited 2m ago, resets in 1h 0m',
+        '- Queue: 1 running, 2 waiting',
+      ].join('\n')
+    );
+  });
+
+  test('only includes selected fields', () => {
+    const text = formatStatus(['auth'], { authenticated: false, needsLogin: true }, [], queue, NOW);
+    expect(text).toBe('# Claude Code Status\n- Auth: not logged in (needs claude login)');
+    expect(formatStatus([], auth, [], queue, NOW)).toBe('');
+  });
+});
+
+describe('claudeCodeStatusProvider', () => {
+  function setup(script: FakeResponse[], statusProvider?: Record<string, unknown>) {
+    const service = new ClaudeCodeService(undefined, new FakeProcessRunner(script));
+    const runtime = {
+      character: { settings: { claudeCode: { statusProvider } } },
+      getService: () => service,
+    } as unknown as IAgentRuntime;
+    const get = () => claudeCodeStatusProvider.get(runtime, {} as Memory, {} as State);
+    return { service, get };
+  }
+
+  test('reports usage limit until the model succeeds', async () => {
+    const { service, get } = setup([
+      { stderr: 'Claude AI usage limit reached|1735689600', exitCode: 1 },
+      { stdout: 'ok' },
+    ]);
+
+    await service.invoke({ prompt: 'hi', model: 'opus' });
+    const limited = await get();
+    expect(limited.values?.claudeCodeLimited).toBe(true);
+    expect(limited.text).toContain('opus usage limited');
+
+    await service.invoke({ prompt: 'hi', model: 'opus' });
+    const recovered = await get();
+    expect(recovered.values?.claudeCodeLimited).toBe(false);
+    expect(recovered.text).toContain('- Recent problems: none');
+  });
+
+  test('honours configured fields', async () => {
+    const { get } = setup([], { fields: ['queue'] });
+    expect((await get()).text).toBe('# Claude Code Status\n- Queue: 0 running, 0 waiting');
+  });
+
+  test('returns nothing without the service', async () => {
+    const runtime = { getService: () => null } as unknown as IAgentRuntime;
+    expect(await claudeCodeStatusProvider.get(runtime, {} as Memory, {} as State)).toEqual({});
+  });
+});
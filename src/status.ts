@@ -0,0 +1,107 @@
+import type { IAgentRuntime, Provider, ProviderResult } from '@elizaos/core';
+
+import type { ClaudeCodeService } from './service';
+import type { AuthStatus, ClaudeRecentFailure, QueueDepth } from './types';
+
+/**
+ * Fields the status provider can include
+ */
+export type StatusField = 'auth' | 'expiry' | 'subscription' | 'failures' | 'queue';
+
+const ALL_FIELDS: StatusField[] = ['auth', 'expiry', 'subscription', 'failures', 'queue'];
+const DEFAULT_RECENT_WINDOW = 600000; // 10 minutes
+
+/**
+ * Read `claudeCode.statusProvider` settings
+ */
+function statusSettings(runtime: IAgentRuntime): { fields: StatusField[]; recentWindow: number } {
+  const settings = runtime.character?.settings as Record<string, unknown>;
+  const ccSettings = settings?.claudeCode as Record<string, unknown>;
+  const config = ccSettings?.statusProvider as Record<string, unknown> | undefined;
+  const fields = Array.isArray(config?.fields)
+    ? ALL_FIELDS.filter((f) => (config.fields as unknown[]).includes(f))
+    : ALL_FIELDS;
+  const recentWindow =
+    typeof config?.recentWindow === 'number' ? config.recentWindow : DEFAULT_RECENT_WINDOW;
+  return { fields, recentWindow };
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
+function describeFailure(failure: ClaudeRecentFailure, now: number): string {
+  const what =
+    failure.status === 'usage_limit'
+      ? 'usage limited'
+      : failure.status === 'auth_error'
+        ? 'auth failed'
+        : failure.status.replace('_', ' ');
+  const resets =
+    failure.resetAt && failure.resetAt > now
+      ? `, resets in ${formatDuration(failure.resetAt - now)}`
+      : '';
+  return `${failure.model} ${what} ${formatDuration(now - failure.at)} ago${resets}`;
+}
+
+/**
+ * Build the status section from auth, recent failures and queue state
+ */
+export function formatStatus(
+  fields: StatusField[],
+  auth: AuthStatus,
+  failures: ClaudeRecentFailure[],
+  queue: QueueDepth,
+  now = Date.now()
+): string {
+  const lines: string[] = [];
+  for (const field of fields) {
+    if (field === 'auth') {
+      lines.push(`- Auth: ${auth.authenticated ? 'ok' : 'not logged in (needs claude login)'}`);
+    } else if (field === 'expiry' && auth.authenticated && auth.expiresAt) {
+      lines.push(`- Token expires in: ${formatDuration(auth.expiresAt - now)}`);
+    } else if (field === 'subscription' && auth.subscriptionType) {
+      lines.push(`- Subscription: ${auth.subscriptionType}`);
+    } else if (field === 'failures') {
+      const text = failures.map((f) => describeFailure(f, now)).join('; ');
+      lines.push(`- Recent problems: ${text || 'none'}`);
+    } else if (field === 'queue') {
+      lines.push(`- Queue: ${queue.running} running, ${queue.queued} waiting`);
+    }
+  }
+  return lines.length > 0 ? `# Claude Code Status\n${lines.join('\n')}` : '';
+}
+
+/**
+ * CLAUDE_CODE_STATUS - tells the agent whether its model backend is healthy,
+ * close to token expiry or limited, so it can explain delays to users.
+ * Fields are chosen with `claudeCode.statusProvider.fields`.
+ */
+export const claudeCodeStatusProvider: Provider = {
+  name: 'CLAUDE_CODE_STATUS',
+  description: 'Claude Code backend health: auth, token expiry, usage limits and queue',
+
+  get: async (runtime: IAgentRuntime): Promise<ProviderResult> => {
+    const service = runtime.getService<ClaudeCodeService>('claude_code');
+    if (!service) return {};
+
+    const { fields, recentWindow } = statusSettings(runtime);
+    const now = Date.now();
+    const auth = await service.checkAuth();
+    const failures = service.getRecentFailures().filter((f) => now - f.at <= recentWindow);
+    const queue = service.getQueueDepth();
+
+    const limited = failures.some((f) => f.status === 'usage_limit');
+    return {
+      text: formatStatus(fields, auth, failures, queue, now),
+      values: {
+        claudeCodeAuthenticated: auth.authenticated,
+        claudeCodeLimited: limited,
+      },
+      data: { auth, failures, queue },
+    };
+  },
+};
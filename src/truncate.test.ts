@@ -0,0 +1,136 @@
+/**
+ * Unit tests for prompt truncation strategies
+ *
+ * Test cases:
+ * - Section parsing of headings and protected XML blocks
+ * - Instructions and received message survive truncation
+ * - Low-priority provider sections dropped before conversation
+ * - Oldest conversation messages trimmed, latest kept
+ * - Head-tail fallback stays within budget
+ * - Strategy registry and setting resolution
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  headTailStrategy,
+  parseSections,
+  registerTruncationStrategy,
+  resolveTruncationStrategy,
+  sectionsStrategy,
+  tailStrategy,
+} from './truncate';
+
+function composedPrompt(messages: number, knowledge = 2000): string {
+  const history = Array.from(
+    { length: messages },
+    (_, i) => `User${i % 2}: message number ${i} ${'x'.repeat(80)}`
+  );
+  return `<task>Generate dialog and actions for the character Eliza.</task>
+
+<providers>
+# About Eliza
+Eliza is a helpful assistant.
+
+# Knowledge
+${'fact '.repeat(knowledge / 5)}
+
+# Conversation Messages
+${history.join('\n')}
+
+# Received Message
+User1: what is the latest news?
+</providers>
+
+<instructions>
+Write a thought and plan for Eliza and decide what actions to take.
+</instructions>
+
+<output>
+Respond using XML format like this:
+<response><text>...</text></response>
+</output>`;
+}
+
+describe('parseSections', () => {
+  test('splits on headings and protected blocks', () => {
+    const sections = parseSections(composedPrompt(2, 20));
+    const kinds = sections.filter((s) => s.heading !== null).map((s) => [s.kind, s.heading]);
+    expect(kinds).toEqual([
+      ['keep', '<task>Generate dialog and actions for the character Eliza.</task>'],
+      ['keep', '<providers>'],
+      ['normal', '# About Eliza'],
+      ['low', '# Knowledge'],
+      ['conversation', '# Conversation Messages'],
+      ['keep', '# Received Message'],
+      ['keep', '</providers>'],
+      ['keep', '<instructions>'],
+      ['keep', '<output>'],
+    ]);
+  });
+
+  test('keeps multi-line protected block together', () => {
+    const sections = parseSections('<instructions>\n# Not a heading\nline\n</instructions>');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].lines).toEqual(['# Not a heading', 'line', '</instructions>']);
+  });
+});
+
+describe('sectionsStrategy', () => {
+  test('returns short prompts unchanged', () => {
+    expect(sectionsStrategy('short', 100)).toBe('short');
+  });
+
+  test('drops low-priority sections before conversation', () => {
+    const prompt = composedPrompt(5, 4000);
+    const result = sectionsStrategy(prompt, prompt.length - 1000);
+    expect(result).not.toContain('# Knowledge');
+    expect(result).toContain('message number 0');
+    expect(result).toContain('# About Eliza');
+  });
+
+  test('trims oldest messages and keeps protected sections', () => {
+    const prompt = composedPrompt(40);
+    const result = sectionsStrategy(prompt, 2000);
+    expect(result.length).toBeLessThanOrEqual(2000);
+    expect(result).toContain('<task>Generate dialog');
+    expect(result).toContain('User1: what is the latest news?');
+    expect(result).toContain('Write a thought and plan');
+    expect(result).toContain('</output>');
+    expect(result).toContain('message number 39');
+    expect(result).not.toContain('message number 0 ');
+    expect(result).toMatch(/\[\.\.\.\d+ earlier messages truncated\.\.\.\]/);
+  });
+
+  test('falls back to head-tail for unstructured prompts', () => {
+    const prompt = 'a'.repeat(500) + 'b'.repeat(500);
+    const result = sectionsStrategy(prompt, 200);
+    expect(result.length).toBeLessThanOrEqual(200);
+    expect(result).toContain('[...TRUNCATED...]');
+    expect(result.startsWith('a')).toBe(true);
+    expect(result.endsWith('b')).toBe(true);
+  });
+});
+
+describe('headTailStrategy and tailStrategy', () => {
+  test('stay within budget', () => {
+    const prompt = 'x'.repeat(1000);
+    expect(headTailStrategy(prompt, 100).length).toBeLessThanOrEqual(100);
+    expect(tailStrategy('abcdef', 3)).toBe('def');
+  });
+});
+
+describe('resolveTruncationStrategy', () => {
+  test('resolves built-in names and defaults to sections', () => {
+    expect(resolveTruncationStrategy('head-tail')).toBe(headTailStrategy);
+    expect(resolveTruncationStrategy('tail')).toBe(tailStrategy);
+    expect(resolveTruncationStrategy(undefined)).toBe(sectionsStrategy);
+    expect(resolveTruncationStrategy('nope')).toBe(sectionsStrategy);
+  });
+
+  test('resolves registered and inline strategies', () => {
+    const custom = (prompt: string, maxChars: number) => prompt.slice(0, maxChars);
+    registerTruncationStrategy('head', custom);
+    expect(resolveTruncationStrategy('head')).toBe(custom);
+    expect(resolveTruncationStrategy(custom)).toBe(custom);
+  });
+});
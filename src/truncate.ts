@@ -0,0 +1,253 @@
+import { logger } from '@elizaos/core';
+
+/**
+ * Prompt truncation strategies. A strategy receives the prompt and a
+ * character budget and returns a prompt no longer than the budget.
+ */
+export type TruncationStrategy = (prompt: string, maxChars: number) => string;
+
+const TRUNCATED_MARKER = '\n\n[...TRUNCATED...]\n\n';
+
+/**
+ * Keep the first 60% and last 40% of the budget, cut at character offsets
+ */
+export const headTailStrategy: TruncationStrategy = (prompt, maxChars) => {
+  if (prompt.length <= maxChars) return prompt;
+
+  // Preserve start + end to keep system instructions and recent context.
+  const budget = Math.max(0, maxChars - TRUNCATED_MARKER.length);
+  const headChars = Math.floor(budget * 0.6);
+  const tailChars = budget - headChars;
+  const head = prompt.slice(0, headChars);
+  const tail = tailChars > 0 ? prompt.slice(-tailChars) : '';
+  return `${head}${TRUNCATED_MARKER}${tail}`;
+};
+
+/**
+ * Keep only the end of the prompt
+ */
+export const tailStrategy: TruncationStrategy = (prompt, maxChars) =>
+  prompt.length <= maxChars ? prompt : prompt.slice(-maxChars);
+
+type SectionKind = 'keep' | 'conversation' | 'low' | 'normal';
+
+interface Section {
+  kind: SectionKind;
+  /** Heading line (or opening tag line), kept when the body is trimmed */
+  heading: string | null;
+  lines: string[];
+}
+
+function headingPattern(words: string[]): RegExp {
+  return new RegExp(words.join('|'), 'i');
+}
+
+/** XML blocks from ElizaOS templates that are always kept */
+const PROTECTED_TAGS = /^\s*<(task|instructions|keys|output)>/i;
+
+/** Container tag lines (e.g., <providers>) kept so the prompt stays balanced */
+const CONTAINER_TAG = /^\s*<\/?providers>\s*$/i;
+
+/** Headings that must survive truncation */
+const KEEP_HEADINGS = headingPattern([
+  'instruction',
+  '^# task',
+  'response format',
+  'output format',
+  'received message',
+  'focus your response',
+  'message directions',
+]);
+
+/** Conversation history: trimmed oldest message first */
+const CONVERSATION_HEADINGS = headingPattern([
+  'conversation messages',
+  'recent messages',
+  'posts in thread',
+  'message history',
+  'conversation summary',
+]);
+
+/** Provider sections dropped first */
+const LOW_HEADINGS = headingPattern([
+  'example',
+  'knowledge',
+  'facts',
+  'relationships',
+  'entities',
+  'people in the room',
+  'world',
+  'attachments',
+  'available actions',
+  'action names',
+  'providers',
+  'current time',
+  'settings',
+  'evaluators',
+  'anxiety',
+  'lore',
+  'topics',
+  'adjective',
+]);
+
+/** Start of a conversation message line (timestamp, [id], or "Name:") */
+const MESSAGE_START = /^(\d{1,2}:\d{2}|\d{4}-\d{2}-\d{2}|\[|\(|[^\s:][^:\n]{0,60}:\s)/;
+
+function classify(heading: string): SectionKind {
+  if (KEEP_HEADINGS.test(heading)) return 'keep';
+  if (CONVERSATION_HEADINGS.test(heading)) return 'conversation';
+  if (LOW_HEADINGS.test(heading)) return 'low';
+  return 'normal';
+}
+
+/**
+ * Split a composed ElizaOS prompt into sections at markdown headings
+ * (`#` to `###`) and protected XML blocks (<task>, <instructions>, ...)
+ */
+export function parseSections(prompt: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { kind: 'normal', heading: null, lines: [] };
+  let closingTag: string | null = null;
+
+  const push = (next: Section) => {
+    if (current.heading !== null || current.lines.length > 0) sections.push(current);
+    current = next;
+  };
+
+  for (const line of prompt.split('\n')) {
+    if (closingTag) {
+      current.lines.push(line);
+      if (line.includes(closingTag)) {
+        closingTag = null;
+        push({ kind: 'normal', heading: null, lines: [] });
+      }
+      continue;
+    }
+
+    if (CONTAINER_TAG.test(line)) {
+      push({ kind: 'keep', heading: line, lines: [] });
+      push({ kind: 'normal', heading: null, lines: [] });
+      continue;
+    }
+
+    const tag = line.match(PROTECTED_TAGS);
+    if (tag) {
+      push({ kind: 'keep', heading: line, lines: [] });
+      const close = `</${tag[1]}>`;
+      if (line.includes(close)) push({ kind: 'normal', heading: null, lines: [] });
+      else closingTag = close;
+      continue;
+    }
+
+    if (/^#{1,3}\s/.test(line)) {
+      push({ kind: classify(line), heading: line, lines: [] });
+      continue;
+    }
+
+    current.lines.push(line);
+  }
+  push({ kind: 'normal', heading: null, lines: [] });
+
+  return sections;
+}
+
+function sectionText(section: Section): string {
+  return section.heading === null
+    ? section.lines.join('\n')
+    : [section.heading, ...section.lines].join('\n');
+}
+
+function render(sections: Section[]): string {
+  return sections.map(sectionText).join('\n');
+}
+
+/**
+ * Group conversation lines into messages (continuation lines stay with their message)
+ */
+function splitMessages(lines: string[]): string[][] {
+  const messages: string[][] = [];
+  for (const line of lines) {
+    if (messages.length === 0 || (line.trim() && MESSAGE_START.test(line))) {
+      messages.push([line]);
+    } else {
+      messages[messages.length - 1].push(line);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Section-aware truncation for ElizaOS composed prompts. Drops, in order:
+ * 1. low-priority provider sections (examples, knowledge, facts, ...), last first
+ * 2. oldest conversation messages (the latest message is always kept)
+ * 3. other titled sections without a protected role (e.g., bio), last first
+ * Instruction blocks and the received message are never dropped. If the
+ * prompt is still too long (or has no recognizable sections) the remainder
+ * falls back to head-tail truncation.
+ */
+export const sectionsStrategy: TruncationStrategy = (prompt, maxChars) => {
+  if (prompt.length <= maxChars) return prompt;
+
+  const sections = parseSections(prompt);
+  let length = render(sections).length;
+
+  const dropSections = (kind: SectionKind) => {
+    for (let i = sections.length - 1; i >= 0 && length > maxChars; i--) {
+      // Untitled text (preamble, text between blocks) is left to the fallback
+      if (sections[i].kind !== kind || sections[i].heading === null) continue;
+      const [removed] = sections.splice(i, 1);
+      length -= sectionText(removed).length + 1;
+    }
+  };
+
+  dropSections('low');
+
+  for (const section of sections) {
+    if (length <= maxChars) break;
+    if (section.kind !== 'conversation') continue;
+
+    const messages = splitMessages(section.lines);
+    let dropped = 0;
+    while (messages.length > 1 && length > maxChars) {
+      const [oldest] = messages.splice(0, 1);
+      length -= oldest.join('\n').length + 1;
+      dropped++;
+    }
+    if (dropped > 0) {
+      const marker = `[...${dropped} earlier messages truncated...]`;
+      section.lines = [marker, ...messages.flat()];
+      length += marker.length + 1;
+    }
+  }
+
+  dropSections('normal');
+
+  return headTailStrategy(render(sections), maxChars);
+};
+
+const strategies = new Map<string, TruncationStrategy>([
+  ['sections', sectionsStrategy],
+  ['head-tail', headTailStrategy],
+  ['tail', tailStrategy],
+]);
+
+/**
+ * Register a custom strategy, selectable by name via `claudeCode.truncation`
+ */
+export function registerTruncationStrategy(name: string, strategy: TruncationStrategy): void {
+  strategies.set(name, strategy);
+}
+
+/**
+ * Resolve a strategy from a setting value (name or function). Unknown names
+ * fall back to the default 'sections' strategy.
+ */
+export function resolveTruncationStrategy(setting: unknown): TruncationStrategy {
+  if (typeof setting === 'function') return setting as TruncationStrategy;
+  if (typeof setting === 'string') {
+    const strategy = strategies.get(setting);
+    if (strategy) return strategy;
+    logger.warn(`[claude-code] unknown truncation strategy '${setting}', using 'sections'`);
+  }
+  return sectionsStrategy;
+}
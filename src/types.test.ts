@@ -1,15 +1,23 @@
 /**
- * Unit tests for auth error detection patterns
+ * Unit tests for auth and limit error detection patterns
  *
  * Test cases:
  * - OAuth token expired messages
  * - Authentication required messages
  * - Invalid token messages
  * - Normal error messages (should NOT match)
+ * - Usage limit, rate limit and overload classification
+ * - Reset time parsing (epoch, clock time, relative)
  */
 
 import { describe, expect, test } from 'bun:test';
-import { isAuthError, AUTH_ERROR_PATTERNS } from './types';
+import {
+  isAuthError,
+  isUsageLimitError,
+  classifyError,
+  parseResetTime,
+  AUTH_ERROR_PATTERNS,
+} from './types';
 
 describe('isAuthError', () => {
   test('detects OAuth token expired', () => {
@@ -75,3 +83,69 @@ describe('AUTH_ERROR_PATTERNS', () => {
     expect(AUTH_ERROR_PATTERNS.length).toBeGreaterThanOrEqual(5);
   });
 });
+
+describe('classifyError', () => {
+  test('detects usage limits', () => {
+    expect(classifyError('Claude AI usage limit reached|1735689600')).toBe('usage_limit');
+    expect(classifyError('5-hour limit reached ∙ resets 3pm')).toBe('usage_limit');
+    expect(classifyError("You've hit your limit · resets 9am (Europe/Prague)")).toBe('usage_limit');
+    expect(isUsageLimitError('Claude usage limit reached. Your limit will reset at 3pm')).toBe(true);
+  });
+
+  test('detects rate limits', () => {
+    expect(classifyError('API Error: 429 {"type":"error","error":{"type":"rate_limit_error"}}')).toBe(
+      'rate_limit'
+    );
+    expect(classifyError('Rate limit exceeded')).toBe('rate_limit');
+    expect(classifyError('Too Many Requests')).toBe('rate_limit');
+  });
+
+  test('detects overload', () => {
+    expect(classifyError('API Error: 529 {"type":"overloaded_error"}')).toBe('overloaded');
+    expect(classifyError('Overloaded')).toBe('overloaded');
+  });
+
+  test('detects auth errors', () => {
+    expect(classifyError('OAuth token has expired')).toBe('auth');
+  });
+
+  test('returns null for other errors', () => {
+    expect(classifyError('File not found')).toBeNull();
+    expect(classifyError('')).toBeNull();
+  });
+});
+
+describe('parseResetTime', () => {
+  // 2026-01-15 10:00 local time
+  const now = new Date(2026, 0, 15, 10, 0, 0).getTime();
+
+  test('parses unix epoch suffix', () => {
+    expect(parseResetTime('Claude AI usage limit reached|1735689600', now)).toBe(1735689600000);
+  });
+
+  test('parses clock time later today', () => {
+    expect(parseResetTime('limit reached ∙ resets 3pm', now)).toBe(
+      new Date(2026, 0, 15, 15, 0, 0).getTime()
+    );
+    expect(parseResetTime('Your limit will reset at 14:30', now)).toBe(
+      new Date(2026, 0, 15, 14, 30, 0).getTime()
+    );
+  });
+
+  test('rolls clock time past now to tomorrow', () => {
+    expect(parseResetTime('resets 9am (Europe/Prague)', now)).toBe(
+      new Date(2026, 0, 16, 9, 0, 0).getTime()
+    );
+    expect(parseResetTime('resets 12am', now)).toBe(new Date(2026, 0, 16, 0, 0, 0).getTime());
+  });
+
+  test('parses relative retry hints', () => {
+    expect(parseResetTime('Please try again in 30 seconds', now)).toBe(now + 30000);
+    expect(parseResetTime('retry after 5 minutes', now)).toBe(now + 300000);
+  });
+
+  test('returns undefined when no reset time', () => {
+    expect(parseResetTime('usage limit reached', now)).toBeUndefined();
+    expect(parseResetTime('resets 3 things', now)).toBeUndefined();
+  });
+});
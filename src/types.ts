@@ -1,33 +1,484 @@
+import type { ClaudeCodeError } from './errors';
+
+/**
+ * Claude model alias accepted by the CLI
+ */
+export type ClaudeModel = 'sonnet' | 'opus' | 'haiku';
+
+/**
+ * Queue lane for an invocation. Interactive calls run before normal ones,
+ * background calls (e.g., research) run last.
+ */
+export type InvocationPriority = 'interactive' | 'normal' | 'background';
+
 /**
  * Options for invoking Claude Code CLI
  */
 export interface ClaudeInvokeOptions {
-  /** The prompt to send to Claude */
-  prompt: string;
+  /** The prompt to send to Claude (required unless messages is set) */
+  prompt?: string;
+  /**
+   * Conversation to send instead of prompt, as one stream-json user turn
+   * with a text block per message labelled `User:` / `Assistant:`; the model
+   * answers the last one in a single run
+   */
+  messages?: ClaudeMessage[];
+  /** System prompt, kept out of truncation (see systemPromptMode) */
+  systemPrompt?: string;
+  /**
+   * 'append' adds systemPrompt to the CLI's default system prompt, 'replace'
+   * swaps the default out entirely (defaults to the `systemPromptMode` setting)
+   */
+  systemPromptMode?: SystemPromptMode;
   /** Model to use (defaults to 'sonnet') */
-  model?: 'sonnet' | 'opus' | 'haiku';
+  model?: ClaudeModel;
   /** Timeout in milliseconds (defaults to service default) */
   timeout?: number;
   /** Working directory for the CLI process */
   cwd?: string;
-  /** Allowed tools (comma-separated or array) */
+  /**
+   * Files written into the temp workspace before the run (e.g., an image to
+   * read). Only for calls without cwd or sessionKey; removed with the workspace.
+   */
+  files?: WorkspaceFile[];
+  /** Allowed tools (comma-separated or array), added to the profile's tools */
   allowedTools?: string[] | string;
-  /** Disallowed tools (comma-separated or array) */
+  /** Disallowed tools (comma-separated or array), added to the profile's tools */
   disallowedTools?: string[] | string;
+  /** Named permission profile (e.g., 'readonly', 'edit', 'full') */
+  profile?: string;
+  /** CLI permission mode, overriding the profile's */
+  permissionMode?: PermissionMode;
+  /**
+   * CLI output format (defaults to 'text'). With 'json' the result envelope is
+   * parsed into session, usage and cost fields on the result.
+   */
+  outputFormat?: 'text' | 'json';
+  /**
+   * Session key (e.g., an ElizaOS roomId). Turns with the same key resume the
+   * same CLI session in a persistent workspace instead of starting fresh.
+   */
+  sessionKey?: string;
+  /** Queue lane (defaults to 'normal') */
+  priority?: InvocationPriority;
+  /**
+   * Cancels the call: a queued call leaves the queue, a running CLI and the
+   * processes it started are stopped. The result has status 'cancelled'.
+   */
+  signal?: AbortSignal;
+  /**
+   * MCP servers by name, added to the `mcpServers` settings defaults. Only
+   * these servers are available to the CLI (strict MCP config).
+   */
+  mcpServers?: Record<string, McpServerConfig>;
+  /**
+   * Snapshot the workspace before the run and return what changed in
+   * `result.changes`. Ignored for session invocations.
+   */
+  captureChanges?: boolean;
+  /**
+   * Run in an isolated git worktree or directory copy instead of cwd
+   * (implies captureChanges, defaults to the `changeIsolation` setting)
+   */
+  isolation?: WorkspaceIsolation;
+}
+
+/**
+ * Message of a multi-turn invocation (ClaudeInvokeOptions.messages)
+ */
+export interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * How the prompt reaches the CLI: written to stdin (default) or passed as an
+ * argument, where long prompts can exceed ARG_MAX and show up in `ps`
+ */
+export type PromptTransport = 'stdin' | 'argv';
+
+/**
+ * How a system prompt is passed: `--append-system-prompt` or `--system-prompt`
+ */
+export type SystemPromptMode = 'append' | 'replace';
+
+/**
+ * CLI `--permission-mode`
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+
+/**
+ * Named tool permissions (`claudeCode.permissionProfiles`)
+ */
+export interface PermissionProfile {
+  /** Tools the CLI may use, optionally with specifiers (e.g., 'Read', 'WebFetch(domain:x)') */
+  allowedTools: string[];
+  /** Tools the CLI must not use; wins over allowedTools in the CLI */
+  disallowedTools: string[];
+  /** Allowed Bash command patterns, passed as `Bash(<pattern>)` (e.g., 'git log:*') */
+  bash?: string[];
+  permissionMode?: PermissionMode;
 }
 
+/**
+ * File staged into the temp workspace of an invocation
+ */
+export interface WorkspaceFile {
+  /** Relative path inside the workspace (e.g., 'image.png') */
+  path: string;
+  data: Uint8Array | string;
+}
+
+/**
+ * Where a change-capturing run works: in place, a git worktree or a copy
+ */
+export type WorkspaceIsolation = 'none' | 'worktree' | 'copy';
+
+/**
+ * File created, modified or deleted during a run
+ */
+export interface WorkspaceFileChange {
+  /** Path relative to the workspace */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  /** Added lines (0 for binary files) */
+  additions: number;
+  /** Removed lines (0 for binary files) */
+  deletions: number;
+  binary: boolean;
+}
+
+/**
+ * Changes made to the workspace by a run (captureChanges / isolation)
+ */
+export interface WorkspaceChanges {
+  /** Isolation used; with 'none' the changes are already in baseDir */
+  isolation: WorkspaceIsolation;
+  /** Directory the run was asked to work in */
+  baseDir: string;
+  /** Directory the CLI actually ran in (the isolated copy, if any) */
+  workDir: string;
+  files: WorkspaceFileChange[];
+  /** Unified diff in git format (binary-safe), paths relative to baseDir */
+  diff: string;
+}
+
+/**
+ * MCP server entry, as in the CLI's `--mcp-config` file
+ */
+export type McpServerConfig =
+  | {
+      type?: 'stdio';
+      command: string;
+      args?: string[];
+      env?: Record<string, string>;
+    }
+  | {
+      type: 'sse' | 'http';
+      url: string;
+      headers?: Record<string, string>;
+    };
+
+/**
+ * Token usage reported by the CLI result envelope
+ */
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Outcome of an invocation. Anything other than 'success' comes with `error`.
+ */
+export type ClaudeInvokeStatus =
+  | 'success'
+  | 'exit_error'
+  | 'timeout'
+  | 'cancelled'
+  | 'queue_timeout'
+  | 'auth_error'
+  | 'usage_limit'
+  | 'spawn_error'
+  | 'config_error';
+
 /**
  * Result from a Claude Code CLI invocation
  */
 export interface ClaudeInvokeResult {
+  /** Outcome discriminant */
+  status: ClaudeInvokeStatus;
+  /** Typed error for non-success results */
+  error?: ClaudeCodeError;
   /** Standard output from the CLI */
   output: string;
-  /** Exit code from the process */
-  exitCode: number;
+  /** Exit code, null if the process never exited on its own (timeout, cancel, spawn failure) */
+  exitCode: number | null;
   /** Standard error from the CLI */
   stderr: string;
   /** Duration of the invocation in milliseconds */
   duration: number;
+  /** CLI session id (json and stream-json output only) */
+  sessionId?: string;
+  /** Number of agent turns (json and stream-json output only) */
+  numTurns?: number;
+  /** Token usage (json and stream-json output only) */
+  usage?: ClaudeUsage;
+  /** Equivalent API cost in USD as reported by the CLI */
+  totalCostUsd?: number;
+  /** Whether the CLI flagged the result as an error */
+  isError?: boolean;
+  /** Result subtype (e.g., 'success', 'error_max_turns') */
+  subtype?: string;
+  /** Workspace changes (captureChanges / isolation only) */
+  changes?: WorkspaceChanges;
+  /** Account the call ran on (`accounts` setting only) */
+  account?: string;
+}
+
+/**
+ * Metadata parsed from the CLI result envelope
+ */
+export type ClaudeResultMetadata = Pick<
+  ClaudeInvokeResult,
+  'sessionId' | 'numTurns' | 'usage' | 'totalCostUsd' | 'isError' | 'subtype'
+>;
+
+/**
+ * Snapshot of the invocation queue
+ */
+export interface QueueDepth {
+  /** CLI processes currently running */
+  running: number;
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Waiting calls per lane */
+  byPriority: Record<InvocationPriority, number>;
+  /** Running and waiting calls per model */
+  byModel: Record<string, { running: number; queued: number }>;
+}
+
+/**
+ * Warm process pool settings (`claudeCode.pool`)
+ */
+export interface ProcessPoolConfig {
+  /** Warm processes kept per model and system prompt */
+  size: number;
+  /** Requests a process serves before it is recycled (each keeps prior turns as context) */
+  maxRequests: number;
+  /** Milliseconds a warm process may sit unused before it is stopped */
+  idleTimeout: number;
+  /** Consecutive crashes before the pool pauses and calls spawn per request */
+  maxFailures: number;
+  /** Milliseconds the pool stays paused after maxFailures */
+  cooldown: number;
+  /** Models warmed at start-up; others are warmed on first use */
+  models: ClaudeModel[];
+}
+
+/**
+ * Snapshot of the warm process pool
+ */
+export interface ProcessPoolStatus {
+  /** False while paused after repeated crashes */
+  healthy: boolean;
+  /** Live processes, busy or idle */
+  processes: number;
+  busy: number;
+  /** Consecutive crashes since the last successful request */
+  failures: number;
+  /** When a pause ends (ms since epoch), if paused */
+  cooldownUntil?: number;
+}
+
+/**
+ * OpenAI-compatible HTTP server settings (`claudeCode.server`)
+ */
+export interface ChatServerConfig {
+  /** Port on 127.0.0.1 (0 picks a free one) */
+  port: number;
+  /** Bearer token clients must send */
+  token: string;
+  /** Extra model names mapped to CLI aliases (e.g., { "gpt-4o": "sonnet" }) */
+  models: Record<string, ClaudeModel>;
+}
+
+/**
+ * Claude subscription used through its own CLI config directory
+ * (`claudeCode.accounts`)
+ */
+export interface ClaudeAccount {
+  name: string;
+  /** Passed to the CLI as CLAUDE_CONFIG_DIR; holds the account's credentials */
+  configDir: string;
+}
+
+/**
+ * 'round-robin' takes healthy accounts in turn, 'least-loaded' the one with
+ * the fewest calls in flight
+ */
+export type AccountSelection = 'round-robin' | 'least-loaded';
+
+/**
+ * Multi-account settings
+ */
+export interface AccountPoolConfig {
+  accounts: ClaudeAccount[];
+  selection: AccountSelection;
+  /** Milliseconds an account stays out of rotation after an auth error or limit */
+  cooldown: number;
+}
+
+/**
+ * Snapshot of one account
+ */
+export interface AccountStatus {
+  name: string;
+  configDir: string;
+  /** Last known credentials status, null before the first check */
+  auth: AuthStatus | null;
+  /** Calls in flight on the account */
+  running: number;
+  /** Whether the account is in rotation (not cooling down) */
+  available: boolean;
+  /** When the account returns to rotation (ms since epoch), while cooling down */
+  cooldownUntil?: number;
+  /** Error that took the account out of rotation */
+  lastError?: string;
+}
+
+/**
+ * 'record' runs every call and writes it to the cassette, 'replay' serves
+ * calls from the cassette and fails on a miss, 'passthrough' replays hits and
+ * runs and records misses
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Record/replay settings (`claudeCode.cassette` or CLAUDE_CODE_CASSETTE*)
+ */
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** JSONL file with one recorded invocation per line */
+  path: string;
+}
+
+/**
+ * One recorded invocation (a cassette line)
+ */
+export interface CassetteEntry {
+  /** sha256 of the normalized system prompt and prompt or messages */
+  promptHash: string;
+  model: ClaudeModel;
+  /** Invocation options, for reference (not matched on replay) */
+  options: Record<string, unknown>;
+  output: string;
+  stderr: string;
+  exitCode: number;
+  duration: number;
+  /** Envelope metadata (json and stream-json output only) */
+  metadata?: ClaudeResultMetadata;
+  /** Recording timestamp (ms since epoch) */
+  recordedAt: number;
+}
+
+/**
+ * Options for ClaudeCodeService.research() and submitResearch()
+ */
+export interface ResearchOptions {
+  /** Directory to research */
+  cwd: string;
+  model?: ClaudeModel;
+  allowedTools?: string[] | string;
+  disallowedTools?: string[] | string;
+  profile?: string;
+  /** Timeout in milliseconds (defaults to 10 minutes) */
+  timeout?: number;
+  sessionKey?: string;
+  mcpServers?: Record<string, McpServerConfig>;
+  captureChanges?: boolean;
+  isolation?: WorkspaceIsolation;
+  signal?: AbortSignal;
+}
+
+/**
+ * State of a background job. Jobs that were running when the agent stopped
+ * or crashed are marked 'interrupted' on the next start.
+ */
+export type ClaudeJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * Background research job, persisted in the job store
+ */
+export interface ClaudeJob {
+  id: string;
+  prompt: string;
+  /** Research options the job was submitted with */
+  options: Omit<ResearchOptions, 'signal'>;
+  status: ClaudeJobStatus;
+  /** Submission timestamp (ms since epoch) */
+  createdAt: number;
+  /** When the job reached its final status (ms since epoch) */
+  finishedAt?: number;
+  /** Result of the research call (without the error object, see `error`) */
+  result?: Omit<ClaudeInvokeResult, 'error'>;
+  /** Error message for failed, cancelled and interrupted jobs */
+  error?: string;
+}
+
+/**
+ * Called once when a job reaches its final status
+ */
+export type ClaudeJobCallback = (job: ClaudeJob) => void | Promise<void>;
+
+/**
+ * Latency histogram (milliseconds). counts[i] is the number of observations
+ * <= buckets[i] (cumulative, as in Prometheus); `count` includes overflow.
+ */
+export interface LatencyHistogram {
+  buckets: number[];
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Invocation metrics recorded since the service started
+ */
+export interface ClaudeCodeStats {
+  /** When recording started (ms since epoch) */
+  since: number;
+  /** Invocations per model and outcome */
+  invocations: Record<string, Partial<Record<ClaudeInvokeStatus, number>>>;
+  /** Total invocations */
+  total: number;
+  timeouts: number;
+  authFailures: number;
+  usageLimits: number;
+  /** CLI run time per model (excludes queue wait) */
+  latency: Record<string, LatencyHistogram>;
+  /** Time spent waiting for a queue slot */
+  queueWait: LatencyHistogram;
+  /** Token usage per model (json and stream-json output only) */
+  tokens: Record<string, ClaudeUsage>;
+  /** Equivalent API cost in USD reported by the CLI */
+  costUsd: number;
+  /** Current queue state */
+  queue: QueueDepth;
+}
+
+/**
+ * Last failed invocation for a model, kept until the model succeeds again
+ */
+export interface ClaudeRecentFailure {
+  model: ClaudeModel;
+  status: Exclude<ClaudeInvokeStatus, 'success'>;
+  message: string;
+  /** When the failure happened (ms since epoch) */
+  at: number;
+  /** When a usage limit resets (ms since epoch), if known */
+  resetAt?: number;
 }
 
 /**
@@ -46,6 +497,34 @@ export interface AuthStatus {
   error?: string;
 }
 
+/**
+ * ElizaOS runtime events emitted by ClaudeCodeService
+ */
+export const ClaudeCodeEventType = {
+  /** Credentials missing, expired, or rejected by the CLI */
+  AUTH_LOST: 'CLAUDE_CODE_AUTH_LOST',
+  /** Valid credentials are back (e.g., after `claude login`) */
+  AUTH_RESTORED: 'CLAUDE_CODE_AUTH_RESTORED',
+  /** Token expires within one of the configured warning thresholds */
+  AUTH_EXPIRING: 'CLAUDE_CODE_AUTH_EXPIRING',
+  /** Background job succeeded, failed, was cancelled or found interrupted at start-up */
+  JOB_FINISHED: 'CLAUDE_CODE_JOB_FINISHED',
+} as const;
+
+/**
+ * Auth state change reported by the credential watcher
+ */
+export interface ClaudeAuthEvent {
+  type: 'auth_lost' | 'auth_restored' | 'auth_expiring';
+  status: AuthStatus;
+  /** What noticed the change: the credentials file or a failed CLI call */
+  reason: 'credentials' | 'cli';
+  /** Milliseconds until the token expires (auth_expiring only) */
+  expiresIn?: number;
+  /** Account whose credentials changed (`accounts` setting only) */
+  account?: string;
+}
+
 /**
  * OAuth credentials stored by Claude CLI
  */
@@ -80,3 +559,187 @@ export function isAuthError(message: string): boolean {
   const lower = message.toLowerCase();
   return AUTH_ERROR_PATTERNS.some((pattern) => lower.includes(pattern.toLowerCase()));
 }
+
+/**
+ * Assistant text emitted while streaming
+ */
+export interface ClaudeTextEvent {
+  type: 'text';
+  /** Text delta (partial assistant reply) */
+  text: string;
+}
+
+/**
+ * Tool call requested by Claude while streaming
+ */
+export interface ClaudeToolUseEvent {
+  type: 'tool_use';
+  /** Tool use id, matches the later tool_result */
+  id: string;
+  /** Tool name (e.g., 'Read', 'Bash') */
+  name: string;
+  /** Tool input as sent by Claude */
+  input: unknown;
+}
+
+/**
+ * Tool output returned to Claude while streaming
+ */
+export interface ClaudeToolResultEvent {
+  type: 'tool_result';
+  /** Id of the tool_use this result answers */
+  toolUseId: string;
+  /** Tool output flattened to text */
+  content: string;
+  /** Whether the tool reported an error */
+  isError: boolean;
+}
+
+/**
+ * Final event of a stream, emitted once after the CLI exits
+ */
+export interface ClaudeResultEvent {
+  type: 'result';
+  /** Same shape as a buffered invoke() result */
+  result: ClaudeInvokeResult;
+}
+
+/**
+ * Typed events yielded by ClaudeCodeService.invokeStream()
+ */
+export type ClaudeStreamEvent =
+  | ClaudeTextEvent
+  | ClaudeToolUseEvent
+  | ClaudeToolResultEvent
+  | ClaudeResultEvent;
+
+/**
+ * Callback receiving assistant text chunks as they stream in
+ */
+export type ClaudeStreamCallback = (chunk: string) => void | Promise<void>;
+
+/**
+ * Options for generateText on the service and model provider
+ */
+export interface GenerateOptions {
+  /** Stream text chunks to this callback (service only) */
+  onStreamChunk?: ClaudeStreamCallback;
+  /** System prompt passed to the CLI separately from the prompt */
+  system?: string;
+  /** Cancels the generation; it then rejects with ClaudeCodeCancelledError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Subscription usage limit patterns (limit reached until a reset time)
+ */
+export const USAGE_LIMIT_PATTERNS = [
+  'usage limit reached',
+  'usage limit exceeded',
+  'limit reached ∙ resets',
+  'hour limit reached',
+  'weekly limit reached',
+  "you've hit your limit",
+  'out of extra usage',
+] as const;
+
+/**
+ * Rate limit patterns (short-lived, retry with backoff)
+ */
+export const RATE_LIMIT_PATTERNS = [
+  'rate_limit_error',
+  'rate limit',
+  'rate-limited',
+  'too many requests',
+  'API Error: 429',
+] as const;
+
+/**
+ * API overload patterns (transient, retry with backoff)
+ */
+export const OVERLOADED_PATTERNS = [
+  'overloaded_error',
+  'overloaded',
+  'API Error: 529',
+  'API Error: 503',
+] as const;
+
+/**
+ * Kind of recognized CLI failure
+ */
+export type ClaudeErrorKind = 'auth' | 'usage_limit' | 'rate_limit' | 'overloaded';
+
+function matchesAny(message: string, patterns: readonly string[]): boolean {
+  const lower = message.toLowerCase();
+  return patterns.some((pattern) => lower.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Check if error message indicates a subscription usage limit
+ */
+export function isUsageLimitError(message: string): boolean {
+  return matchesAny(message, USAGE_LIMIT_PATTERNS) || /usage limit reached\|\d{10}/i.test(message);
+}
+
+/**
+ * Classify a CLI error message (stderr or JSON result text).
+ * Returns null for failures that are not auth, limit or overload errors.
+ */
+export function classifyError(message: string): ClaudeErrorKind | null {
+  if (!message) return null;
+  if (isUsageLimitError(message)) return 'usage_limit';
+  if (matchesAny(message, RATE_LIMIT_PATTERNS)) return 'rate_limit';
+  if (matchesAny(message, OVERLOADED_PATTERNS)) return 'overloaded';
+  if (isAuthError(message)) return 'auth';
+  return null;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  m: 60000,
+  min: 60000,
+  minute: 60000,
+  h: 3600000,
+  hr: 3600000,
+  hour: 3600000,
+};
+
+/**
+ * Extract the limit reset time (ms since epoch) from a CLI error message.
+ *
+ * Recognized shapes:
+ * - `Claude AI usage limit reached|1735689600` (unix seconds)
+ * - `resets 3pm`, `resets at 15:30`, `reset at 9:05 am (Europe/Prague)` (local time)
+ * - `try again in 30 seconds`, `retry after 5 minutes`
+ */
+export function parseResetTime(message: string, now: number = Date.now()): number | undefined {
+  const epoch = message.match(/\|(\d{10})\b/);
+  if (epoch) return Number(epoch[1]) * 1000;
+
+  const relative = message.match(
+    /(?:try again|retry)\s+(?:in|after)\s+(\d+)\s*(s|sec|second|m|min|minute|h|hr|hour)s?\b/i
+  );
+  if (relative) {
+    return now + Number(relative[1]) * DURATION_UNITS[relative[2].toLowerCase()];
+  }
+
+  const clock = message.match(/resets?\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const minutes = clock[2] ? Number(clock[2]) : 0;
+    const meridiem = clock[3]?.toLowerCase();
+    if (!meridiem && !clock[2]) return undefined; // bare number, not a time
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) return undefined;
+
+    const reset = new Date(now);
+    reset.setHours(hours, minutes, 0, 0);
+    if (reset.getTime() <= now) reset.setDate(reset.getDate() + 1);
+    return reset.getTime();
+  }
+
+  return undefined;
+}